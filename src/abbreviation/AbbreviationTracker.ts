@@ -1,7 +1,11 @@
 import { UserConfig, markupAbbreviation, MarkupAbbreviation, stylesheetAbbreviation, StylesheetAbbreviation } from 'emmet';
 import { TextRange } from '@emmetio/action-utils';
-import { substr, toRange, getCaret, getContent, AbbrError, replaceWithSnippet } from '../lib/utils';
+import { substr, toRange, getCaret, getCarets, getContent, AbbrError, replaceWithSnippet, replaceWithSnippets, SnippetReplacement, rangeContains } from '../lib/utils';
 import { getOptions, expand } from '../lib/emmet';
+import { getErrorMessage } from '../lib/diagnostics';
+import { isJSX } from '../lib/syntax';
+import { addToHistory } from '../lib/history';
+import { Expansion, addExpansion, matchSnippet } from './expansions';
 
 interface AbbrBase {
     abbr: string;
@@ -23,9 +27,11 @@ export interface StartTrackingParams {
     options?: UserConfig;
     offset?: number;
     forced?: boolean;
+    /** Contents to wrap with abbreviation, located right after tracked range */
+    wrap?: string;
 }
 
-const cache = new Map<string, AbbreviationTracker>();
+const cache = new Map<TextEditor, AbbreviationTracker[]>();
 
 export default class AbbreviationTracker {
     /** Last caret location in document */
@@ -34,11 +40,23 @@ export default class AbbreviationTracker {
     public lastLength: number;
     /** Current abbreviation range */
     public range: TextRange;
+    /** Contents of tracked range at the moment of last update */
+    public text = '';
     /** Offset in range where abbreviation actually starts */
     public offset = 0;
     /** Parsed abbreviation for current range. May contain error */
     public abbreviation: ParsedAbbreviation | ParsedAbbreviationError | null = null;
     public options: UserConfig | undefined;
+    /**
+     * Contents to wrap with abbreviation. If defined, tracker is an interactive
+     * wrapper and given contents are located right after abbreviation range
+     */
+    public wrap: string | undefined;
+    /**
+     * Expanded snippet offered to user as completion. Used to detect if tracked
+     * abbreviation was replaced with completion
+     */
+    public snippet: string | undefined;
 
     private marker: IssueCollection;
 
@@ -75,7 +93,8 @@ export default class AbbreviationTracker {
      * Updates abbreviation data from current tracker
      */
     updateAbbreviation(editor: TextEditor) {
-        let abbr = substr(editor, this.range);
+        this.text = substr(editor, this.range);
+        let abbr = this.text;
         if (this.offset) {
             abbr = abbr.slice(this.offset);
         }
@@ -99,7 +118,8 @@ export default class AbbreviationTracker {
                 parsedAbbr = stylesheetAbbreviation(abbr);
             } else {
                 parsedAbbr = markupAbbreviation(abbr, {
-                    jsx: this.options.syntax === 'jsx'
+                    jsx: isJSX(this.options.syntax),
+                    text: this.options.text
                 });
                 simple = isSimpleMarkupAbbreviation(parsedAbbr);
             }
@@ -116,19 +136,30 @@ export default class AbbreviationTracker {
         }
 
         const issue = new Issue();
+        const issues = [issue];
         issue.textRange = toRange(this.range);
 
         if (this.abbreviation.type === 'abbreviation') {
             issue.code = 'EmmetAbbr';
             issue.severity = IssueSeverity.Hint;
-            issue.message = 'Emmet abbreviation';
+            // For interactive wrapper, display wrapped result right in marker
+            issue.message = this.wrap != null ? this.abbreviation.preview : 'Emmet abbreviation';
         } else {
+            const { error } = this.abbreviation;
+            const message = getErrorMessage(abbr, error, this.options.type);
             issue.code = 'EmmetAbbrError';
             issue.severity = IssueSeverity.Error;
-            issue.message = this.abbreviation.error.message;
+            issue.message = 'Invalid Emmet abbreviation';
+
+            if (error && error.pos != null) {
+                // Point to exact error location in abbreviation
+                issues.push(createErrorIssue(this.range, this.range[0] + this.offset + error.pos, message));
+            } else {
+                issue.message = message;
+            }
         }
 
-        this.marker.append(editor.document.uri, [issue]);
+        this.marker.append(editor.document.uri, issues);
     }
 
     /**
@@ -144,14 +175,31 @@ export default class AbbreviationTracker {
 }
 
 /**
- * Returns abbreviation tracker for given editor
+ * Returns abbreviation tracker of given editor which contains given location.
+ * If location is not specified, returns tracker of current caret, if any,
+ * or the first one
+ */
+export function getTracker(editor: TextEditor, pos?: number): AbbreviationTracker | undefined {
+    const trackers = getTrackers(editor);
+    if (pos != null) {
+        return trackers.find(item => item.contains(pos));
+    }
+
+    const caret = getCaret(editor);
+    return trackers.find(item => item.contains(caret)) || trackers[0];
+}
+
+/**
+ * Returns all abbreviation trackers of given editor, one per selection,
+ * ordered by location in document
  */
-export function getTracker(editor: TextEditor): AbbreviationTracker | undefined {
-    return cache.get(getId(editor));
+export function getTrackers(editor: TextEditor): AbbreviationTracker[] {
+    return cache.get(editor) || [];
 }
 
 /**
- * Starts abbreviation tracking for given editor
+ * Starts abbreviation tracking for given editor. Trackers of other selections
+ * are kept, unless they overlap with new one
  * @param start Location of abbreviation start
  * @param pos Current caret position, must be greater that `start`
  */
@@ -160,58 +208,148 @@ export function startTracking(editor: TextEditor, start: number, pos: number, pa
     if (params) {
         tracker.options = params.options;
         tracker.offset = params.offset || 0;
+        tracker.wrap = params.wrap;
+    }
+
+    for (const item of getTrackers(editor)) {
+        if (item.range[0] <= pos && start <= item.range[1]) {
+            stopTracking(editor, true, item);
+        }
     }
 
     tracker.updateAbbreviation(editor);
-    cache.set(getId(editor), tracker);
+    const trackers = getTrackers(editor).concat(tracker)
+        .sort((a, b) => a.range[0] - b.range[0]);
+    cache.set(editor, trackers);
     return tracker;
 }
 
 /**
- * Stops abbreviation tracking in given editor instance
+ * Stops given abbreviation tracker or all trackers in given editor instance
  */
-export function stopTracking(editor: TextEditor, skipRemove?: boolean) {
-    const tracker = getTracker(editor);
-    if (tracker) {
-        if (tracker.forced && !skipRemove) {
+export function stopTracking(editor: TextEditor, skipRemove?: boolean, tracker?: AbbreviationTracker) {
+    const trackers = getTrackers(editor);
+    const stopped = tracker ? trackers.filter(item => item === tracker) : trackers;
+
+    // Remove contents from the end of document so that ranges of pending
+    // trackers are not affected
+    for (const item of stopped.slice().reverse()) {
+        if (item.forced && !skipRemove) {
             // Contents of forced abbreviation must be removed
-            replaceWithSnippet(editor, toRange(tracker.range), '');
+            replaceWithSnippet(editor, toRange(item.range), '');
         }
-        tracker.dispose();
-        cache.delete(getId(editor));
+        item.dispose();
+    }
+
+    const rest = trackers.filter(item => !stopped.includes(item));
+    if (rest.length) {
+        cache.set(editor, rest);
+    } else {
+        cache.delete(editor);
     }
 }
 
 /**
- * Handle content change in given editor instance
+ * Stops abbreviation tracking in all editors of current workspace
  */
-export function handleChange(editor: TextEditor): AbbreviationTracker | undefined {
-    const tracker = getTracker(editor);
-    if (!tracker) {
-        return;
+export function stopAllTracking(skipRemove?: boolean) {
+    Array.from(cache.keys()).forEach(editor => stopTracking(editor, skipRemove));
+}
+
+/**
+ * Handle content change in given editor instance. Returns list of trackers
+ * which are still active after change
+ */
+export function handleChange(editor: TextEditor): AbbreviationTracker[] {
+    const trackers = getTrackers(editor);
+    if (!trackers.length) {
+        return trackers;
     }
 
-    const { lastPos, range } = tracker;
+    const source = getSiblingSource(editor);
+    if (source) {
+        trackers.forEach(tracker => handleSiblingChange(editor, source, tracker));
+        return getTrackers(editor);
+    }
 
-    if (lastPos < range[0] || lastPos > range[1]) {
-        // Updated content outside abbreviation: reset tracker
+    const content = getContent(editor);
+    const { length } = content;
+    const carets = getCarets(editor);
+    const totalDelta = length - trackers[0].lastLength;
+
+    const committed = trackers.length > 1 && carets.length === trackers.length
+        ? getCommittedTracker(editor, content, trackers, totalDelta)
+        : undefined;
+    if (committed) {
+        // One of trackers was replaced with completion: expand the rest ones
+        // as well
+        commitTrackers(editor, trackers.filter(tracker => tracker !== committed), committed, totalDelta);
+        return [];
+    }
+
+    // In multi-cursor editing, every caret receives the same change, so we can
+    // restore caret locations before change
+    const delta = totalDelta / carets.length;
+    if (delta !== Math.round(delta)) {
         stopTracking(editor);
-        return
+        return [];
     }
 
-    const length = getContent(editor).length;
-    const pos = getCaret(editor);
-    const delta = length - tracker.lastLength;
+    for (const tracker of trackers) {
+        // With single caret, edit location is the last known caret location.
+        // Otherwise, it’s guessed from current caret locations
+        const ix = carets.length === 1
+            ? (rangeContains(tracker.range, tracker.lastPos) ? 0 : -1)
+            : carets.findIndex((caret, i) => rangeContains(tracker.range, caret - (i + 1) * delta));
+
+        if (ix === -1) {
+            // Updated content outside abbreviation: reset tracker, unless
+            // abbreviation was replaced with completion and caret moved
+            // into inserted snippet
+            if (!commitSnippet(editor, content, tracker, tracker.range[0])) {
+                stopTracking(editor, false, tracker);
+            }
+            continue;
+        }
+
+        // Apply changes made by preceding carets
+        const start = tracker.range[0];
+        tracker.shift(ix * delta);
+
+        if (commitSnippet(editor, content, tracker, start)) {
+            continue;
+        }
+
+        const lastPos = carets.length === 1 ? tracker.lastPos : carets[ix] - delta;
+        updateRange(editor, tracker, lastPos, carets[ix], delta, length);
+    }
+
+    return getTrackers(editor);
+}
+
+export function handleSelectionChange(editor: TextEditor, caret = getCaret(editor)): AbbreviationTracker | undefined {
+    getTrackers(editor).forEach(tracker => tracker.lastPos = caret);
+    return getTracker(editor, caret);
+}
+
+/**
+ * Updates range of given tracker after content change of `delta` size, made
+ * by caret at `lastPos` location
+ */
+function updateRange(editor: TextEditor, tracker: AbbreviationTracker, lastPos: number, pos: number, delta: number, length: number) {
+    const { range } = tracker;
 
     tracker.lastLength = length;
     tracker.lastPos = pos;
 
     if (delta < 0) {
-        // Removed some content
-        if (lastPos === range[0]) {
+        // Removed some content: before caret with Backspace or after caret
+        // with Delete key
+        const from = pos === lastPos ? lastPos : lastPos + delta;
+        if (from - delta <= range[0]) {
             // Updated content at the abbreviation edge
             tracker.shift(delta);
-        } else if (range[0] < lastPos && lastPos <= range[1]) {
+        } else if (from < range[1]) {
             tracker.extend(delta);
         }
     } else if (delta > 0 && range[0] <= lastPos && lastPos <= range[1]) {
@@ -219,29 +357,215 @@ export function handleChange(editor: TextEditor): AbbreviationTracker | undefine
         tracker.extend(delta);
     }
 
-    // Ensure range is in valid state
-    if (!tracker.isValidRange()) {
-        stopTracking(editor);
+    if (tracker.wrap != null && !hasWrapContent(editor, tracker)) {
+        // Wrapped contents were replaced, most likely with committed completion.
+        // Nothing to clean up
+        stopTracking(editor, true, tracker);
+        return;
+    }
+
+    // Ensure range is in valid state. Range contents must be the same as
+    // before, except edited part: otherwise, content was changed by undo,
+    // redo or external edit and we can’t reliably track abbreviation
+    if (!tracker.isValidRange() || !isContiguousEdit(tracker.text, substr(editor, tracker.range))) {
+        stopTracking(editor, false, tracker);
         return;
     }
 
     tracker.updateAbbreviation(editor);
-    return tracker;
 }
 
-export function handleSelectionChange(editor: TextEditor, caret = getCaret(editor)): AbbreviationTracker | undefined {
-    const tracker = getTracker(editor);
-    if (tracker) {
-        tracker.lastPos = caret;
+/**
+ * Check if `after` string can be produced from `before` one by inserting or
+ * removing a single contiguous chunk of text
+ */
+function isContiguousEdit(before: string, after: string): boolean {
+    const [long, short] = before.length >= after.length ? [before, after] : [after, before];
+    let prefix = 0;
+    while (prefix < short.length && long[prefix] === short[prefix]) {
+        prefix++;
     }
+
+    let suffix = 0;
+    while (suffix < short.length - prefix && long[long.length - suffix - 1] === short[short.length - suffix - 1]) {
+        suffix++;
+    }
+
+    return prefix + suffix === short.length;
+}
+
+/**
+ * Returns snippet of given tracker if it was inserted in place of tracked
+ * abbreviation, e.g. completion was committed
+ */
+function getInsertedSnippet(content: string, tracker: AbbreviationTracker): string | undefined {
+    const { snippet, text, range } = tracker;
+    if (snippet && !content.startsWith(text, range[0]) && matchSnippet(content, snippet, range[0])) {
+        return snippet;
+    }
+}
+
+/**
+ * Check if tracked abbreviation was replaced with completion snippet. If so,
+ * records expansion and stops tracking
+ */
+function commitSnippet(editor: TextEditor, content: string, tracker: AbbreviationTracker, start: number): boolean {
+    const snippet = getInsertedSnippet(content, tracker);
+    if (snippet) {
+        recordExpansion(editor, tracker, start, snippet, tracker.lastLength);
+        stopTracking(editor, true, tracker);
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Stores expansion of given tracker at `start` location for undo and revert
+ * and adds expanded abbreviation to history
+ */
+function recordExpansion(editor: TextEditor, tracker: AbbreviationTracker, start: number, snippet: string, lengthBefore: number) {
+    addExpansion(editor, {
+        text: tracker.text,
+        offset: tracker.offset,
+        wrap: tracker.wrap,
+        options: tracker.options,
+        start,
+        snippet,
+        lengthBefore
+    });
+
+    if (tracker.abbreviation?.type === 'abbreviation') {
+        addToHistory(tracker.abbreviation.abbr);
+    }
+}
+
+/**
+ * Restores abbreviation tracking for given expansion, which was reverted
+ * to abbreviation in editor
+ */
+export function resumeTracking(editor: TextEditor, expansion: Expansion): AbbreviationTracker {
+    const { start, text, offset, options, wrap } = expansion;
+    const tracker = startTracking(editor, start, start + text.length, {
+        offset,
+        options,
+        wrap,
+        forced: wrap != null
+    });
+
+    // Keep snippet to detect if it was expanded again, e.g. with redo
+    tracker.snippet = expansion.snippet;
     return tracker;
 }
 
 /**
- * Returns unique identifier of editor’s underlying document
+ * Detects tracker which was replaced with completion in multi-cursor editing:
+ * unlike typing, completion replaces a single tracker with its snippet while
+ * the rest ones are intact
  */
-export function getId(editor: TextEditor): string {
-    return editor.document.uri;
+function getCommittedTracker(editor: TextEditor, content: string, trackers: AbbreviationTracker[], delta: number): AbbreviationTracker | undefined {
+    return trackers.find((tracker, i) => {
+        if (tracker.abbreviation?.type !== 'abbreviation' || !delta || !getInsertedSnippet(content, tracker)) {
+            return false;
+        }
+
+        return trackers.every((other, j) => {
+            const offset = j > i ? delta : 0;
+            return other === tracker
+                || substr(editor, [other.range[0] + offset, other.range[1] + offset]) === other.text;
+        });
+    });
+}
+
+/**
+ * Expands abbreviations of given trackers and stops tracking in editor.
+ * Trackers located after `committed` one are shifted by `delta`
+ */
+function commitTrackers(editor: TextEditor, trackers: AbbreviationTracker[], committed: AbbreviationTracker, delta: number) {
+    const replacements: SnippetReplacement[] = [];
+    const length = getContent(editor).length;
+
+    if (committed.snippet) {
+        recordExpansion(editor, committed, committed.range[0], committed.snippet, committed.lastLength);
+    }
+
+    for (const tracker of trackers) {
+        if (tracker.range[0] > committed.range[0]) {
+            tracker.shift(delta);
+        }
+
+        if (tracker.abbreviation?.type === 'abbreviation') {
+            try {
+                const snippet = expand(editor, tracker.abbreviation.abbr, tracker.options);
+                replacements.push({ range: toRange(tracker.range), snippet });
+                recordExpansion(editor, tracker, tracker.range[0], snippet, length);
+            } catch (err) {
+                // Unable to expand abbreviation, keep it as is
+            }
+        }
+    }
+
+    stopTracking(editor, true);
+    if (replacements.length) {
+        replaceWithSnippets(editor, replacements);
+    }
+}
+
+/**
+ * Check if content of given editor’s document was changed in sibling editor,
+ * e.g. in another split pane with the same document
+ */
+export function isSiblingChange(editor: TextEditor): boolean {
+    return !!getSiblingSource(editor);
+}
+
+/**
+ * Returns sibling editor which is currently changing the document of given
+ * editor, if any. Since Nova doesn’t report where document change came from,
+ * we assume it’s an active editor with the same document
+ */
+function getSiblingSource(editor: TextEditor): TextEditor | undefined {
+    const active = nova.workspace.activeTextEditor;
+    if (active && active !== editor && active.document.uri === editor.document.uri) {
+        return active;
+    }
+}
+
+/**
+ * Updates tracker of given editor after its document was changed in `source`
+ * sibling editor: shifts tracked range if change is located before it or stops
+ * tracking if abbreviation itself was changed
+ */
+function handleSiblingChange(editor: TextEditor, source: TextEditor, tracker: AbbreviationTracker) {
+    const length = getContent(editor).length;
+    const delta = length - tracker.lastLength;
+
+    // Caret of source editor is either after inserted content or at the
+    // start of removed one
+    const editStart = getCaret(source) - Math.max(delta, 0);
+    const editEnd = editStart + Math.max(-delta, 0);
+
+    tracker.lastLength = length;
+    tracker.lastPos = getCaret(editor);
+
+    if (editEnd <= tracker.range[0]) {
+        tracker.shift(delta);
+    } else if (editStart < tracker.range[1]) {
+        // Abbreviation was updated in sibling editor: leave its contents as is
+        stopTracking(editor, true, tracker);
+        return;
+    }
+
+    tracker.updateAbbreviation(editor);
+}
+
+/**
+ * Check if contents to wrap are still located right after tracked range
+ */
+function hasWrapContent(editor: TextEditor, tracker: AbbreviationTracker): boolean {
+    const { range, wrap } = tracker;
+    return range[0] <= range[1]
+        && substr(editor, [range[1], range[1] + wrap!.length]) === wrap;
 }
 
 export function getCache() {
@@ -263,6 +587,19 @@ function isSimpleMarkupAbbreviation(abbr: MarkupAbbreviation): boolean {
     return !abbr.children.length;
 }
 
+/**
+ * Creates issue for error at given location, narrowed to given range
+ */
+function createErrorIssue(range: TextRange, pos: number, message: string): Issue {
+    const start = Math.max(range[0], Math.min(pos, range[1] - 1));
+    const issue = new Issue();
+    issue.code = 'EmmetAbbrErrorPos';
+    issue.severity = IssueSeverity.Error;
+    issue.message = message;
+    issue.textRange = new Range(start, Math.min(start + 1, range[1]));
+    return issue;
+}
+
 function getPreviewConfig(config: UserConfig): UserConfig {
     return {
         ...config,
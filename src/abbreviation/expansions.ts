@@ -0,0 +1,131 @@
+import { UserConfig } from 'emmet';
+import { TextRange } from '@emmetio/action-utils';
+
+export interface Expansion {
+    /** Text of expanded abbreviation, including prefix like `<` in JSX */
+    text: string;
+    /** Offset in `text` where abbreviation actually starts */
+    offset: number;
+    /** Contents wrapped with abbreviation, if any */
+    wrap?: string;
+    /** Options used for abbreviation expanding */
+    options?: UserConfig;
+    /** Location of expanded abbreviation in document */
+    start: number;
+    /** Expanded snippet, may contain tab stops */
+    snippet: string;
+    /** Document length before expansion */
+    lengthBefore: number;
+}
+
+/** Max number of expansions to keep per document */
+const maxExpansions = 20;
+
+const expansions = new Map<string, Expansion[]>();
+
+/**
+ * Adds record of abbreviation expansion in document of given editor
+ */
+export function addExpansion(editor: TextEditor, expansion: Expansion) {
+    const items = getExpansions(editor).filter(item => item.start !== expansion.start);
+    items.push(expansion);
+    expansions.set(editor.document.uri, items.slice(-maxExpansions));
+}
+
+/**
+ * Removes given expansion record from document of given editor
+ */
+export function removeExpansion(editor: TextEditor, expansion: Expansion) {
+    const items = getExpansions(editor).filter(item => item !== expansion);
+    if (items.length) {
+        expansions.set(editor.document.uri, items);
+    } else {
+        expansions.delete(editor.document.uri);
+    }
+}
+
+/**
+ * Returns recent abbreviation expansions in document of given editor
+ */
+export function getExpansions(editor: TextEditor): Expansion[] {
+    return expansions.get(editor.document.uri) || [];
+}
+
+/**
+ * Finds most recent expansion which snippet is still intact in given code and
+ * contains given location. Returns expansion record and actual location
+ * of its snippet
+ */
+export function findExpansion(editor: TextEditor, code: string, pos: number): [Expansion, TextRange] | undefined {
+    const items = getExpansions(editor);
+    for (let i = items.length - 1; i >= 0; i--) {
+        const range = locateSnippet(code, items[i].snippet, pos, items[i].start);
+        if (range) {
+            return [items[i], range];
+        }
+    }
+}
+
+/**
+ * Returns expansions which were reverted to abbreviations in given code,
+ * e.g. with undo: document is in the same state as before expansion
+ */
+export function getRevertedExpansions(editor: TextEditor, code: string): Expansion[] {
+    return getExpansions(editor).filter(item => code.length === item.lengthBefore
+        && code.startsWith(item.text + (item.wrap || ''), item.start));
+}
+
+/**
+ * Returns text of given snippet as it will be inserted into document:
+ * tab stops are replaced with their placeholders
+ */
+export function snippetText(snippet: string): string {
+    return snippet
+        .replace(/\$\[([^\]]*)\]/g, '$1')
+        .replace(/\$\{\d+:([^}]*)\}/g, '$1')
+        .replace(/\$\{\d+\}|\$\d+/g, '');
+}
+
+/**
+ * Finds location of given snippet in code at `start` location. Since editor
+ * may re-indent inserted snippet, whitespace is matched loosely
+ */
+export function matchSnippet(code: string, snippet: string, start: number): TextRange | undefined {
+    const re = snippetRegExp(snippet, 'y');
+    re.lastIndex = start;
+    const m = re.exec(code);
+    if (m) {
+        return [start, start + m[0].length];
+    }
+}
+
+/**
+ * Finds location of given snippet in code which contains `pos`. If there are
+ * multiple matches, the closest to `hint` location is used
+ */
+export function locateSnippet(code: string, snippet: string, pos: number, hint = pos): TextRange | undefined {
+    const re = snippetRegExp(snippet, 'g');
+    let result: TextRange | undefined;
+    let m: RegExpExecArray | null;
+
+    while ((m = re.exec(code))) {
+        const range: TextRange = [m.index, m.index + m[0].length];
+        if (!m[0]) {
+            re.lastIndex++;
+        } else if (range[0] <= pos && pos <= range[1]
+            && (!result || Math.abs(range[0] - hint) < Math.abs(result[0] - hint))) {
+            result = range;
+        }
+    }
+
+    return result;
+}
+
+function snippetRegExp(snippet: string, flags: string): RegExp {
+    const source = snippetText(snippet)
+        .trim()
+        .split(/\s+/)
+        .map(chunk => chunk.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('\\s*');
+    return new RegExp(source, flags);
+}
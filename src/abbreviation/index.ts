@@ -1,14 +1,24 @@
 import { UserConfig, CSSAbbreviationScope } from 'emmet';
-import { getCSSContext, getHTMLContext, CSSContext } from '@emmetio/action-utils';
+import { getHTMLContext, CSSContext } from '@emmetio/action-utils';
 import { TokenType } from '@emmetio/css-matcher';
-import AbbreviationTracker, { handleChange, stopTracking, startTracking } from './AbbreviationTracker';
+import AbbreviationTracker, { getTracker, handleChange, handleSelectionChange, stopTracking, startTracking, resumeTracking, isSiblingChange } from './AbbreviationTracker';
+import { addExpansion, getRevertedExpansions, removeExpansion } from './expansions';
 import {
-    isSupported, isJSX, isCSS, isHTML, docSyntax, isXML, getEmbeddedStyleSyntax,
-    getStylesheetAbbreviationContext, getMarkupAbbreviationContext, getSyntaxType
+    isSupported, isJSX, isCSS, isHTML, docSyntax, isXML, getEmbeddedStyleSyntax, getEmbeddedMarkupSyntax, getSyntaxContent,
+    getStylesheetAbbreviationContext, getMarkupAbbreviationContext, getSyntaxType, isIndentedStylesheet, getStylesheetContext,
+    isIndentedMarkup, getIndentedStyleSyntax, getIndentedStyleContext, getIndentedAbbreviationContext
 } from '../lib/syntax';
-import { getCaret, substr, getContent } from '../lib/utils';
-import { JSX_PREFIX, extract } from '../lib/emmet';
+import { getCarets, substr, getContent, replaceWithSnippet } from '../lib/utils';
+import { extract, expand, getOptions } from '../lib/emmet';
+import { addToHistory } from '../lib/history';
+import { getTemplateLiteral, TemplateLiteral } from '../lib/template-literal';
+import { getStyleObject } from '../lib/style-object';
+import { getIndentedMarkupContext } from '../lib/indented-markup';
+import { inServerCode } from '../lib/server-code';
+import { inScriptLiteral, inStylesheetLiteral, inMarkupLiteral } from '../lib/literals';
+import { getWrapErrorMessage } from '../lib/diagnostics';
 import getOutputOptions from '../lib/output';
+import getEmmetConfig, { getOption } from '../lib/config';
 
 export { getTracker } from './AbbreviationTracker';
 export { AbbreviationTracker };
@@ -17,6 +27,7 @@ const tabStop = String.fromCodePoint(0xFFFC);
 const reJSXAbbrStart = /^[a-zA-Z.#\[\(]$/;
 const reWordBound = /^[\s>;"\']?[a-zA-Z.#!@\[\(]$/;
 const reStylesheetWordBound = /^[\s;"\']?[a-zA-Z!@]$/;
+const reStyleObjectWordBound = /^[\s{,]?[a-zA-Z]$/;
 const pairs = {
     '{': '}',
     '[': ']',
@@ -31,30 +42,67 @@ for (const key of Object.keys(pairs)) {
 nova.commands.register('emmet.clear-marker', stopTracking);
 
 export default function initAbbreviationTracker(editor: TextEditor) {
-    let lastPos: number | null = null;
+    let lastCarets: number[] = [];
     const disposable = new CompositeDisposable();
     disposable.add(editor.onDidChange(ed => {
-        const pos = getCaret(ed);
-        let tracker = handleChange(ed);
+        const carets = getCarets(ed);
+        if (isSiblingChange(ed)) {
+            // Document was changed in another editor: keep trackers in sync
+            // but never start tracking here
+            handleChange(ed);
+            lastCarets = carets;
+            return;
+        }
+
+        for (const tracker of handleChange(ed)) {
+            if (tracker.wrap != null && /[\r\n]/.test(substr(ed, tracker.range))) {
+                // User hit Enter in interactive wrapper: apply abbreviation
+                commitWrap(ed, tracker);
+            } else {
+                const pos = carets.find(caret => tracker.contains(caret));
+                if (shouldStopTracking(tracker, pos != null ? pos : tracker.range[1])) {
+                    stopTracking(ed, false, tracker);
+                }
+            }
+        }
 
-        if (!tracker && lastPos !== null && lastPos === pos - 1 && allowTracking(ed)) {
-            tracker = startAbbreviationTracking(ed, pos);
+        // Resume tracking of expanded abbreviations restored with undo,
+        // unless tracking was disabled for current syntax since expansion
+        const resume = allowTracking(ed);
+        for (const expansion of getRevertedExpansions(ed, getContent(ed))) {
+            removeExpansion(ed, expansion);
+            if (resume) {
+                resumeTracking(ed, expansion);
+            }
         }
 
-        if (tracker && shouldStopTracking(tracker, pos)) {
-            stopTracking(ed);
+        if (lastCarets.length === carets.length && allowTracking(ed)) {
+            // Every caret receives the same change: start tracking for carets
+            // which entered a single character
+            carets.forEach((pos, i) => {
+                if (lastCarets[i] === pos - i - 1 && !getTracker(ed, pos)) {
+                    const tracker = startAbbreviationTracking(ed, pos);
+                    if (tracker && shouldStopTracking(tracker, pos)) {
+                        stopTracking(ed, false, tracker);
+                    }
+                }
+            });
         }
 
-        lastPos = pos;
+        lastCarets = carets;
     }));
 
     disposable.add(editor.onDidChangeSelection(ed => {
         if (isEnabled(ed)) {
-            lastPos = getCaret(ed);
+            lastCarets = getCarets(ed);
+            handleSelectionChange(ed);
         }
     }));
 
-    disposable.add(editor.onDidDestroy(stopTracking));
+    disposable.add(editor.onDidDestroy(ed => {
+        stopTracking(ed);
+        disposable.dispose();
+    }));
 
     return disposable;
 }
@@ -75,9 +123,9 @@ function allowTracking(editor: TextEditor): boolean {
  * Check if Emmet abbreviation tracking is enabled
  */
 export function isEnabled(editor: TextEditor): boolean {
-    if (nova.config.get('emmet.enable-completions', 'boolean')) {
-        const ignored = createList(nova.config.get('emmet.ignored-syntaxes', 'string') || '');
-        const syntax = docSyntax(editor);
+    const syntax = docSyntax(editor);
+    if (getEmmetConfig(syntax).mark) {
+        const ignored = createList(String(getOption('emmet.ignored-syntaxes') || ''));
         const type = getSyntaxType(syntax);
         return !ignored.includes(syntax) && !ignored.includes(type);
     }
@@ -88,8 +136,7 @@ export function isEnabled(editor: TextEditor): boolean {
  * If allowed, tries to extract abbreviation from given completion context
  */
 export function extractTracker(editor: TextEditor, ctx: CompletionContext): AbbreviationTracker | undefined {
-    const syntax = docSyntax(editor);
-    const prefix = isJSX(syntax) ? JSX_PREFIX : '';
+    const prefix = getJSXPrefix(editor, ctx.position);
     const options = getActivationContext(editor, ctx.position);
     const abbr = extract(getContent(editor), ctx.position, getSyntaxType(options?.syntax), { prefix });
     if (abbr) {
@@ -109,22 +156,35 @@ function startAbbreviationTracking(editor: TextEditor, pos: number): Abbreviatio
     // NB: get last 2 characters: first should be a word bound(or empty),
     // second must be abbreviation start
     const prefix = substr(editor, [Math.max(0, pos - 2), pos]);
-    const syntax = docSyntax(editor);
+    const jsxPrefix = getJSXPrefix(editor, pos);
+    const styleObject = inStyleObject(editor, pos);
+    const wordBound = styleObject ? reStyleObjectWordBound : reWordBound;
+    const { activationChars, lineStartActivation } = getEmmetConfig(docSyntax(editor));
     let start = -1
     let end = pos;
     let offset = 0;
 
-    if (isJSX(syntax)) {
+    if (jsxPrefix) {
         // In JSX, abbreviations should be prefixed
-        if (prefix.length === 2 && prefix[0] === JSX_PREFIX && reJSXAbbrStart.test(prefix[1])) {
+        const jsxStart = substr(editor, [Math.max(0, pos - jsxPrefix.length - 1), pos]);
+        if (jsxStart.length === jsxPrefix.length + 1 && jsxStart.startsWith(jsxPrefix) && reJSXAbbrStart.test(jsxStart.slice(-1))) {
+            start = pos - jsxStart.length;
+            offset = jsxPrefix.length;
+        }
+    } else if (lineStartActivation) {
+        // Capture abbreviations at line start or prefixed with `<` only,
+        // the prefix is replaced with expanded abbreviation
+        if (prefix.length === 2 && prefix[0] === '<' && reJSXAbbrStart.test(prefix[1])) {
             start = pos - 2;
-            offset = JSX_PREFIX.length;
+            offset = 1;
+        } else if (wordBound.test(prefix.slice(-1)) && atLineStart(editor, pos - 1)) {
+            start = pos - 1;
         }
-    } else if (reWordBound.test(prefix)) {
+    } else if (isWordBound(prefix, wordBound, activationChars)) {
         start = pos - 1;
     }
 
-    if (start >= 0) {
+    if (start >= 0 && !inLiteral(editor, pos)) {
         // Check if there’s paired character
         const lastCh = prefix[prefix.length - 1];
         if (lastCh in pairs && substr(editor, [pos, pos + 1]) === pairs[lastCh]) {
@@ -133,7 +193,10 @@ function startAbbreviationTracking(editor: TextEditor, pos: number): Abbreviatio
 
         const options = getActivationContext(editor, pos);
         if (options) {
-            if (options.type === 'stylesheet' && !reStylesheetWordBound.test(prefix)) {
+            const stylesheetBound = lineStartActivation
+                ? !offset
+                : isWordBound(prefix, reStylesheetWordBound, activationChars);
+            if (options.type === 'stylesheet' && !styleObject && !stylesheetBound) {
                 // Additional check for stylesheet abbreviation start: it’s slightly
                 // differs from markup prefix, but we need activation context
                 // to ensure that context under caret is CSS
@@ -151,7 +214,7 @@ function startAbbreviationTracking(editor: TextEditor, pos: number): Abbreviatio
                 // e.g. `a` → `a: ;`. If that’s the case, stop tracking
                 const { abbr, preview } = tracker.abbreviation;
                 if (preview.startsWith(abbr) && /^:\s*;?$/.test(preview.slice(abbr.length))) {
-                    stopTracking(editor);
+                    stopTracking(editor, false, tracker);
                     return;
                 }
             }
@@ -161,6 +224,104 @@ function startAbbreviationTracking(editor: TextEditor, pos: number): Abbreviatio
     }
 }
 
+/**
+ * Check if given two-character prefix is a valid abbreviation start: first
+ * character is a word bound and second one starts abbreviation. Custom
+ * `activationChars` list overrides word bound characters of `re`
+ */
+function isWordBound(prefix: string, re: RegExp, activationChars: string): boolean {
+    if (!activationChars || prefix.length < 2) {
+        return re.test(prefix);
+    }
+
+    const bound = prefix[0];
+    return re.test(prefix[1])
+        && (activationChars.includes(bound) || (/\s/.test(bound) && activationChars.includes('\\s')));
+}
+
+/**
+ * Check if there’s only whitespace between line start and given location
+ */
+function atLineStart(editor: TextEditor, pos: number): boolean {
+    const line = editor.getLineRangeForRange(new Range(pos, pos));
+    return !substr(editor, [line.start, pos]).trim();
+}
+
+/**
+ * Wraps contents of interactive wrapper with its abbreviation
+ */
+function commitWrap(editor: TextEditor, tracker: AbbreviationTracker) {
+    const abbr = substr(editor, tracker.range).slice(tracker.offset).replace(/\s*[\r\n]\s*/g, '');
+    const range = new Range(tracker.range[0], tracker.range[1] + tracker.wrap!.length);
+
+    try {
+        const snippet = expand(editor, abbr, tracker.options);
+        addExpansion(editor, {
+            text: substr(editor, tracker.range),
+            offset: tracker.offset,
+            wrap: tracker.wrap,
+            options: tracker.options,
+            start: tracker.range[0],
+            snippet,
+            lengthBefore: editor.document.length
+        });
+        stopTracking(editor, true, tracker);
+        replaceWithSnippet(editor, range, snippet);
+        addToHistory(abbr);
+    } catch (err) {
+        // Remove invalid abbreviation, leave wrapped contents as is
+        stopTracking(editor, false, tracker);
+        nova.workspace.showErrorMessage(getWrapErrorMessage(abbr, err, tracker.options?.type));
+    }
+}
+
+/**
+ * Returns prefix required for abbreviation at given location. Abbreviations
+ * must be prefixed in JSX only, but not in HTML or CSS template literals
+ * and JSX style objects
+ */
+function getJSXPrefix(editor: TextEditor, pos: number): string {
+    const syntax = docSyntax(editor);
+    return isJSX(syntax) && !getTemplateLiteral(getContent(editor), pos) && !inStyleObject(editor, pos)
+        ? getEmmetConfig(syntax).jsxPrefix
+        : '';
+}
+
+/**
+ * Check if given location is inside comment, string or regular expression
+ * literal where abbreviation tracking should not start automatically
+ */
+function inLiteral(editor: TextEditor, pos: number): boolean {
+    let syntax = docSyntax(editor);
+    let template: TemplateLiteral | undefined;
+
+    if (isJSX(syntax)) {
+        template = getTemplateLiteral(getContent(editor), pos);
+        if (!template) {
+            return inScriptLiteral(getContent(editor), pos);
+        }
+        syntax = template.syntax;
+    }
+
+    const content = getSyntaxContent(editor, template);
+    if (isCSS(syntax) || isIndentedStylesheet(syntax)) {
+        // Plain CSS is the only stylesheet syntax without `//` comments
+        return inStylesheetLiteral(content, pos, syntax !== 'css');
+    }
+
+    return isHTML(syntax) || isXML(syntax)
+        ? inMarkupLiteral(content, pos)
+        : false;
+}
+
+/**
+ * Check if given location is at property name of JSX style object:
+ * `style={{ | }}`
+ */
+function inStyleObject(editor: TextEditor, pos: number): boolean {
+    return isJSX(docSyntax(editor)) && !!getStyleObject(getContent(editor), pos);
+}
+
 /**
  * Check if we should stop tracking abbreviation in given editor
  */
@@ -234,29 +395,91 @@ function shouldStopTracking(tracker: AbbreviationTracker, pos: number): boolean
  * abbreviations and returns context data about it
  */
 function getActivationContext(editor: TextEditor, pos: number): UserConfig | undefined {
-    const syntax = docSyntax(editor);
+    let syntax = docSyntax(editor);
+    let template: TemplateLiteral | undefined;
+
+    if (inServerCode(getContent(editor), pos, syntax)) {
+        // No abbreviations in server code like `<?php ... ?>` or `{{ ... }}`
+        return;
+    }
+
+    if (isJSX(syntax)) {
+        template = getTemplateLiteral(getContent(editor), pos);
+        if (template) {
+            // Abbreviation in HTML or CSS template literal
+            syntax = template.syntax;
+        } else if (inStyleObject(editor, pos)) {
+            // CSS abbreviation in JSX style object
+            return getOptions(editor, pos);
+        }
+    }
 
-    if (isCSS(syntax)) {
-        return getCSSActivationContext(editor, pos, syntax, getCSSContext(getContent(editor), pos));
+    if (isCSS(syntax) || isIndentedStylesheet(syntax)) {
+        return getCSSActivationContext(editor, pos, syntax, getStylesheetContext(getSyntaxContent(editor, template), pos, syntax));
     }
 
     if (isHTML(syntax)) {
-        const content = getContent(editor);
+        const content = getSyntaxContent(editor, template);
         const ctx = getHTMLContext(content, pos, { xml: isXML(syntax) });
         if (ctx.css) {
-            return getCSSActivationContext(editor, pos, getEmbeddedStyleSyntax(content, ctx) || 'css', ctx.css);
+            const styleSyntax = getEmbeddedStyleSyntax(content, ctx) || 'css';
+            const css = isIndentedStylesheet(styleSyntax)
+                ? getStylesheetContext(content, pos, styleSyntax, ctx.css.embedded)
+                : ctx.css;
+            return getCSSActivationContext(editor, pos, styleSyntax, css);
         }
 
         if (!ctx.current) {
+            const embedded = getEmbeddedMarkupSyntax(content, ctx);
+            if (embedded) {
+                return {
+                    syntax: embedded,
+                    type: 'markup',
+                    options: getOutputOptions(editor, pos, false, embedded)
+                };
+            }
+
             return {
                 syntax,
                 type: 'markup',
                 context: getMarkupAbbreviationContext(content, ctx),
-                options: getOutputOptions(editor, pos)
+                options: getOutputOptions(editor, pos, false, syntax)
             };
         }
+    } else if (isIndentedMarkup(syntax)) {
+        return getIndentedActivationContext(editor, pos, syntax);
     } else {
-        return { syntax, type: 'markup' };
+        return {
+            syntax,
+            type: 'markup',
+            options: getOutputOptions(editor, pos, false, syntax)
+        };
+    }
+}
+
+/**
+ * Returns activation context for indented markup syntaxes like Pug or Slim.
+ * Abbreviations are allowed in element lines and embedded stylesheet blocks
+ * only, but not in text (including inline text of element), code or comments
+ */
+function getIndentedActivationContext(editor: TextEditor, pos: number, syntax: string): UserConfig | undefined {
+    const content = getContent(editor);
+    const ctx = getIndentedMarkupContext(content, pos, syntax);
+
+    if (ctx.raw) {
+        const styleSyntax = getIndentedStyleSyntax(ctx);
+        return styleSyntax
+            ? getCSSActivationContext(editor, pos, styleSyntax, getIndentedStyleContext(content, pos, styleSyntax, ctx.raw))
+            : void 0;
+    }
+
+    if (!ctx.current || (ctx.current.type === 'element' && !ctx.inlineText)) {
+        return {
+            syntax,
+            type: 'markup',
+            context: getIndentedAbbreviationContext(ctx),
+            options: getOutputOptions(editor, pos, false, syntax)
+        };
     }
 }
 
@@ -278,7 +501,7 @@ function getCSSActivationContext(editor: TextEditor, pos: number, syntax: string
             syntax,
             type: 'stylesheet',
             context: getStylesheetAbbreviationContext(ctx),
-            options: getOutputOptions(editor, pos, ctx.inline)
+            options: getOutputOptions(editor, pos, ctx.inline, syntax)
         };
     }
 }
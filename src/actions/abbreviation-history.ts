@@ -0,0 +1,60 @@
+import { UserConfig } from 'emmet';
+import { expand, getOptions } from '../lib/emmet';
+import { getHistory, addToHistory } from '../lib/history';
+import { replaceWithSnippets } from '../lib/utils';
+import { wrapSelection } from './wrap-with-abbreviation';
+
+/** Max length of expanded abbreviation preview in palette */
+const maxPreviewLength = 80;
+
+nova.commands.register('emmet.abbreviation-history', editor => {
+    const items = getHistory();
+    if (!items.length) {
+        nova.workspace.showInformativeMessage('Abbreviation history is empty');
+        return;
+    }
+
+    const selections = editor.selectedRanges.slice();
+    const config = getOptions(editor, selections[0].start);
+    const choices = items.map(abbr => `${abbr} → ${getPreview(editor, abbr, config)}`);
+
+    nova.workspace.showChoicePalette(choices, { placeholder: 'Recent abbreviations' }, (value, index) => {
+        if (value == null) {
+            return;
+        }
+
+        const abbr = items[index];
+
+        try {
+            // Wrap selected text or insert expanded abbreviation at caret
+            replaceWithSnippets(editor, selections.map(sel => sel.empty
+                ? { range: sel, snippet: expand(editor, abbr, getOptions(editor, sel.start)) }
+                : wrapSelection(editor, sel, abbr)));
+            addToHistory(abbr);
+        } catch (err) {
+            nova.workspace.showErrorMessage(`Unable to apply “${abbr}” abbreviation in current context`);
+        }
+    });
+});
+
+/**
+ * Returns single-line preview of expanded abbreviation
+ */
+function getPreview(editor: TextEditor, abbr: string, config: UserConfig): string {
+    try {
+        const preview = expand(editor, abbr, {
+            ...config,
+            options: {
+                ...config.options,
+                'output.field': (index: number, placeholder: string) => placeholder,
+                'output.format': false
+            }
+        }).replace(/\s+/g, ' ').trim();
+
+        return preview.length > maxPreviewLength
+            ? preview.slice(0, maxPreviewLength) + '…'
+            : preview;
+    } catch (err) {
+        return 'invalid in current context';
+    }
+}
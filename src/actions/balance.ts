@@ -1,6 +1,8 @@
-import { getContent, toRange, getCaret } from '../lib/utils';
-import { isCSS, isXML, syntaxInfo } from '../lib/syntax';
+import { toRange, getCaret } from '../lib/utils';
+import { isCSS, isXML, isIndentedMarkup, syntaxInfo, getSyntaxContent } from '../lib/syntax';
 import { balanceCSS, balance } from '../lib/emmet';
+import { balanceIndented } from '../lib/indented-markup';
+import { balanceTemplateBlocks } from '../lib/template-blocks';
 
 nova.commands.register('emmet.balance', editor => balanceAction(editor));
 nova.commands.register('emmet.balance-inward', editor => balanceAction(editor, true));
@@ -18,50 +20,74 @@ function pushRange(ranges: Range[], range: Range) {
 /**
  * Returns regions for balancing
  */
-function getRanges(editor: TextEditor, pos: number, syntax: string, inward?: boolean): Range[] {
-    const content = getContent(editor);
+function getRanges(content: string, pos: number, syntax: string, inward?: boolean): Range[] {
     if (isCSS(syntax)) {
         return balanceCSS(content, pos, inward).map(toRange);
     }
 
-    const result: Range[] = [];
-    const tags = balance(content, pos, inward, isXML(syntax));
-
-    for (const tag of tags) {
-        if (tag.close) {
-            // Inner range
-            pushRange(result, new Range(tag.open[1], tag.close[0]));
-            // Outer range
-            pushRange(result, new Range(tag.open[0], tag.close[1]));
-        } else {
-            pushRange(result, new Range(tag.open[0], tag.open[1]));
+    const ranges: Range[] = [];
+
+    if (isIndentedMarkup(syntax)) {
+        for (const node of balanceIndented(content, pos, syntax, inward)) {
+            if (node.inner) {
+                // Nested content range
+                ranges.push(toRange(node.inner));
+            }
+            ranges.push(toRange(node.range));
+        }
+    } else {
+        const tags = balance(content, pos, inward, isXML(syntax));
+
+        for (const tag of tags) {
+            if (tag.close) {
+                // Inner range
+                ranges.push(new Range(tag.open[1], tag.close[0]));
+                // Outer range
+                ranges.push(new Range(tag.open[0], tag.close[1]));
+            } else {
+                ranges.push(new Range(tag.open[0], tag.open[1]));
+            }
+        }
+
+        // Template blocks like `{% if %}...{% endif %}` are balanced as tags
+        for (const block of balanceTemplateBlocks(content, pos, syntax, inward)) {
+            ranges.push(new Range(block.open[1], block.close[0]));
+            ranges.push(new Range(block.open[0], block.close[1]));
         }
     }
 
-    return result.sort((a, b) => {
-        return inward ? a.start - b.start : b.start - a.start;
-    });
+    // Sort ranges by containment: innermost first for outward balancing,
+    // outermost first for inward
+    ranges.sort((a, b) => inward
+        ? a.start - b.start || b.end - a.end
+        : b.start - a.start || a.end - b.end);
+
+    const result: Range[] = [];
+    ranges.forEach(range => pushRange(result, range));
+    return result;
 }
 
 function balanceAction(editor: TextEditor, inward?: boolean) {
     const info = syntaxInfo(editor, getCaret(editor));
     const syntax = info.syntax || 'html';
 
-    if (syntax && (info.type === 'markup' || isCSS(syntax))) {
+    if (info.type === 'markup' || isCSS(syntax)) {
+        // In template literal, balance its content only
+        const content = getSyntaxContent(editor, info.template);
         editor.selectedRanges = inward
-            ? balanceActionInward(editor, syntax)
-            : balanceActionOutward(editor, syntax);
+            ? balanceActionInward(editor, content, syntax)
+            : balanceActionOutward(editor, content, syntax);
     }
 }
 
 /**
  * Returns inward balanced ranges from current view's selection
  */
-function balanceActionInward(editor: TextEditor, syntax: string): Range[] {
+function balanceActionInward(editor: TextEditor, content: string, syntax: string): Range[] {
     const result: Range[] = [];
 
     for (const sel of editor.selectedRanges) {
-        const ranges = getRanges(editor, sel.start, syntax, true);
+        const ranges = getRanges(content, sel.start, syntax, true);
 
         // Try to find range which equals to selection: we should pick leftmost
         let ix = ranges.findIndex(r => sel.isEqual(r));
@@ -83,10 +109,10 @@ function balanceActionInward(editor: TextEditor, syntax: string): Range[] {
 /**
  * Returns outward balanced ranges from current view's selection
  */
-function balanceActionOutward(editor: TextEditor, syntax: string): Range[] {
+function balanceActionOutward(editor: TextEditor, content: string, syntax: string): Range[] {
     const result: Range[] = [];
     for (const sel of editor.selectedRanges) {
-        const ranges = getRanges(editor, sel.start, syntax);
+        const ranges = getRanges(content, sel.start, syntax);
         const targetRange = ranges.find(r => r.containsRange(sel) && r.end > sel.end);
         result.push(targetRange || sel);
     }
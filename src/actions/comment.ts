@@ -1,8 +1,8 @@
 import Scanner from '@emmetio/scanner';
 import { scan, createOptions, ElementType, ScannerOptions } from '@emmetio/html-matcher';
 import matchCSS from '@emmetio/css-matcher';
-import { isSpace, getContent, narrowToNonSpace, toRange } from '../lib/utils';
-import { isHTML, isXML, isCSS, syntaxInfo, SyntaxInfo } from '../lib/syntax';
+import { isSpace, narrowToNonSpace, toRange } from '../lib/utils';
+import { isHTML, isXML, isCSS, isJSX, isStylesheetSyntax, syntaxInfo, getSyntaxContent, SyntaxInfo } from '../lib/syntax';
 
 interface Block {
     range: Range;
@@ -20,13 +20,21 @@ type CommentTokens = [string, string];
 
 const htmlComment: CommentTokens = ['<!--', '-->'];
 const cssComment: CommentTokens = ['/*', '*/'];
+const jsxComment: CommentTokens = ['{/*', '*/}'];
 
 nova.commands.register('emmet.comment', editor => {
     const selection = editor.selectedRanges.slice().reverse();
     editor.edit(edit => {
         for (const sel of selection) {
             const info = syntaxInfo(editor, sel.start);
-            const tokens = isCSS(info.syntax) ? cssComment : htmlComment;
+            if (!isHTML(info.syntax) && !isStylesheetSyntax(info.syntax)) {
+                // Commenting is not supported in current syntax
+                continue;
+            }
+
+            // Block comments are supported by all stylesheet syntaxes,
+            // including indented ones like Sass and Stylus
+            const tokens = getCommentTokens(info.syntax);
             const block = getRangeForComment(editor, sel.start, info);
 
             if (block && block.commentStart) {
@@ -53,6 +61,14 @@ nova.commands.register('emmet.comment', editor => {
     });
 });
 
+function getCommentTokens(syntax: string): CommentTokens {
+    if (isStylesheetSyntax(syntax)) {
+        return cssComment;
+    }
+
+    return isJSX(syntax) ? jsxComment : htmlComment;
+}
+
 /**
  * Removes comment markers from given region. Returns amount of characters removed
  */
@@ -126,11 +142,13 @@ function getCommentRegions(editor: TextEditor, range: Range, tokens: CommentToke
 function getRangeForComment(editor: TextEditor, pos: number, info: SyntaxInfo): Block | undefined {
     const { syntax, context } = info;
     if (isHTML(syntax)) {
-        return getHTMLBlockRange(getContent(editor), pos, isXML(syntax));
+        const content = getSyntaxContent(editor, info.template);
+        return (isJSX(syntax) && findJSXComment(content, pos))
+            || getHTMLBlockRange(content, pos, isXML(syntax));
     }
 
     if (isCSS(syntax)) {
-        let content = getContent(editor);
+        let content = getSyntaxContent(editor, info.template);
         let offset = 0;
         if (context && context.type === 'css' && context.embedded) {
             offset = context.embedded[0];
@@ -206,6 +224,24 @@ function getHTMLBlockRange(source: string, pos: number, xml = false): Block | un
     return result;
 }
 
+/**
+ * If given `pos` location is inside JSX comment `{/* ... *\/}` in given `code`,
+ * returns its range
+ */
+function findJSXComment(code: string, pos: number): Block | undefined {
+    const start = code.lastIndexOf(jsxComment[0], pos - 1);
+    if (start !== -1 && start < pos) {
+        const end = code.indexOf(jsxComment[1], start + jsxComment[0].length);
+        if (end !== -1 && pos < end + jsxComment[1].length) {
+            return {
+                range: new Range(start, end + jsxComment[1].length),
+                commentStart: jsxComment[0],
+                commentEnd: jsxComment[1],
+            };
+        }
+    }
+}
+
 /**
  * If given `pos` location is inside CSS comment in given `code`, returns its
  * range
@@ -1,21 +1,59 @@
 import { expand, extract, getOptions } from '../lib/emmet';
-import { getCaret, replaceWithSnippet, getContent } from '../lib/utils';
+import { replaceWithSnippets, getContent, SnippetReplacement } from '../lib/utils';
 import { getSyntaxType } from '../lib/syntax';
+import { addToHistory } from '../lib/history';
+import { getErrorMessage } from '../lib/diagnostics';
+import { addExpansion } from '../abbreviation/expansions';
 
 nova.commands.register('emmet.expand-abbreviation', editor => {
-    const caret = getCaret(editor);
-    const options = getOptions(editor, caret);
-    const abbr = extract(getContent(editor), caret, getSyntaxType(options!.syntax));
+    const content = getContent(editor);
+    const replacements: SnippetReplacement[] = [];
+    const errors: string[] = [];
 
-    if (abbr) {
+    for (const sel of editor.selectedRanges) {
+        const caret = sel.start;
         const config = getOptions(editor, caret);
-        if (nova.version[0] < 5) {
-            // XXX snippets expansion is supported in Nova 5, until that version
-            // should use old placeholder syntax
-            config.options!['output.field'] = field();
+        const abbr = extract(content, caret, getSyntaxType(config.syntax));
+
+        if (abbr) {
+            if (nova.version[0] < 5) {
+                // XXX snippets expansion is supported in Nova 5, until that version
+                // should use old placeholder syntax
+                config.options!['output.field'] = field();
+            }
+
+            try {
+                const snippet = expand(editor, abbr.abbreviation, config);
+                replacements.push({
+                    range: new Range(abbr.start, abbr.end),
+                    snippet
+                });
+                addToHistory(abbr.abbreviation);
+                addExpansion(editor, {
+                    text: content.slice(abbr.start, abbr.end),
+                    offset: 0,
+                    options: config,
+                    start: abbr.start,
+                    snippet,
+                    lengthBefore: content.length
+                });
+            } catch (err) {
+                // Invalid abbreviation in current selection, keep it as is
+                // and expand the rest ones
+                const message = `Unable to expand “${abbr.abbreviation}”: ${getErrorMessage(abbr.abbreviation, err, config.type)}`;
+                if (!errors.includes(message)) {
+                    errors.push(message);
+                }
+            }
         }
-        const snippet = expand(editor, abbr.abbreviation, config);
-        replaceWithSnippet(editor, new Range(abbr.start, abbr.end), snippet);
+    }
+
+    if (replacements.length) {
+        replaceWithSnippets(editor, replacements);
+    }
+
+    if (errors.length) {
+        nova.workspace.showErrorMessage(errors.join('\n'));
     }
 });
 
@@ -1,13 +1,16 @@
 import { isSpace } from '@emmetio/scanner';
 import { TextRange } from '@emmetio/action-utils';
-import { getTagContext, ContextTag } from '../lib/emmet';
+import { getTagOrBlockContext, ContextTag } from '../lib/emmet';
+import { isHTML, syntaxInfo } from '../lib/syntax';
 import { narrowToNonSpace, getContent, isSpace as isSpaceText, rangeEmpty, toRange } from '../lib/utils';
 
 nova.commands.register('emmet.remove-tag', editor => {
     editor.edit(edit => {
         const nextRanges: Range[] = [];
         for (const sel of editor.selectedRanges.slice().reverse()) {
-            const tag = getTagContext(editor, sel.start);
+            const tag = isHTML(syntaxInfo(editor, sel.start).syntax)
+                ? getTagOrBlockContext(editor, sel.start)
+                : undefined;
             if (tag) {
                 const pos = tag.open[0];
                 removeTag(editor, edit, tag);
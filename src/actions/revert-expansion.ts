@@ -0,0 +1,49 @@
+import { TextRange } from '@emmetio/action-utils';
+import { getContent, toRange } from '../lib/utils';
+import { Expansion, findExpansion, removeExpansion } from '../abbreviation/expansions';
+import { resumeTracking } from '../abbreviation/AbbreviationTracker';
+import { isEnabled } from '../abbreviation';
+
+nova.commands.register('emmet.revert-expansion', editor => {
+    const content = getContent(editor);
+    const items: Array<[Expansion, TextRange]> = [];
+
+    for (const sel of editor.selectedRanges) {
+        const item = findExpansion(editor, content, sel.start);
+        if (item && !items.some(([expansion]) => expansion === item[0])) {
+            items.push(item);
+        }
+    }
+
+    if (!items.length) {
+        nova.workspace.showInformativeMessage('No expanded abbreviation found at caret');
+        return;
+    }
+
+    // Replace snippets from the end of document so that changes won’t affect
+    // ranges of pending replacements
+    items.sort((a, b) => b[1][0] - a[1][0]);
+    editor.edit(edit => {
+        for (const [expansion, range] of items) {
+            edit.replace(toRange(range), expansion.text + (expansion.wrap || ''));
+        }
+    }).then(() => {
+        // Restored abbreviations are shifted by preceding replacements
+        let offset = 0;
+        const selections: Range[] = [];
+
+        for (const [expansion, range] of items.reverse()) {
+            const start = range[0] + offset;
+            const end = start + expansion.text.length;
+            offset += expansion.text.length + (expansion.wrap || '').length - (range[1] - range[0]);
+
+            removeExpansion(editor, expansion);
+            if (isEnabled(editor)) {
+                resumeTracking(editor, { ...expansion, start });
+            }
+            selections.push(new Range(end, end));
+        }
+
+        editor.selectedRanges = selections;
+    });
+});
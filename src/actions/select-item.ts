@@ -1,7 +1,8 @@
 import { TextRange } from '@emmetio/action-utils';
-import { isCSS, isHTML, syntaxInfo } from '../lib/syntax';
-import { getContent, toRange } from '../lib/utils';
+import { isCSS, isHTML, isIndentedMarkup, syntaxInfo, getSyntaxContent } from '../lib/syntax';
+import { toRange } from '../lib/utils';
 import { selectItem } from '../lib/emmet';
+import { selectItemIndented } from '../lib/indented-markup';
 
 nova.commands.register('emmet.select-next-item', editor => selectItemAction(editor));
 nova.commands.register('emmet.select-previous-item', editor => selectItemAction(editor, true));
@@ -10,19 +11,19 @@ function selectItemAction(editor: TextEditor, isPrev = false) {
     const sel = editor.selectedRange;
     const { syntax } = syntaxInfo(editor, sel.start);
 
-    if (!syntax || (!isCSS(syntax) && !isHTML(syntax))) {
+    if (!syntax || (!isCSS(syntax) && !isHTML(syntax) && !isIndentedMarkup(syntax))) {
         return;
     }
 
-    const code = getContent(editor);
-    let model = selectItem(code, sel.start, isCSS(syntax), isPrev);
+    const code = getSyntaxContent(editor);
+    let model = getModel(code, sel.start, syntax, isPrev);
 
     if (model) {
         let range = findRange(sel, model.ranges, isPrev);
         if (!range) {
             // Out of available selection range, move to next item
             const nextPos = isPrev ? model.start : model.end;
-            model = selectItem(code, nextPos, isCSS(syntax), isPrev);
+            model = getModel(code, nextPos, syntax, isPrev);
             if (model) {
                 range = findRange(sel, model.ranges, isPrev)
             }
@@ -35,6 +36,12 @@ function selectItemAction(editor: TextEditor, isPrev = false) {
     }
 }
 
+function getModel(code: string, pos: number, syntax: string, isPrev: boolean) {
+    return isIndentedMarkup(syntax)
+        ? selectItemIndented(code, pos, syntax, isPrev)
+        : selectItem(code, pos, isCSS(syntax), isPrev);
+}
+
 function findRange(sel: Range, ranges: TextRange[], reverse = false) {
     if (reverse) {
         ranges = ranges.slice().reverse();
@@ -1,4 +1,4 @@
-import { isXML, syntaxInfo } from '../lib/syntax';
+import { isHTML, isXML, syntaxInfo } from '../lib/syntax';
 import { getTagContext } from '../lib/emmet';
 import { isSpace } from '../lib/utils';
 
@@ -11,7 +11,7 @@ nova.commands.register('emmet.split-join-tag', editor => {
             const pos = sel.start;
             const { syntax } = syntaxInfo(editor, pos);
             const xml = !!syntax && isXML(syntax);
-            const tag = getTagContext(editor, pos, xml);
+            const tag = isHTML(syntax) ? getTagContext(editor, pos, xml) : undefined;
 
             if (tag) {
                 const { open, close } = tag;
@@ -1,35 +1,100 @@
 import { TextRange } from '@emmetio/action-utils';
 import { getOptions, expand, getTagContext } from '../lib/emmet';
-import { narrowToNonSpace, toRange, replaceWithSnippet } from '../lib/utils';
+import { narrowToNonSpace, toRange, replaceWithSnippets, SnippetReplacement } from '../lib/utils';
 import { syntaxInfo, isHTML } from '../lib/syntax';
+import { addToHistory } from '../lib/history';
+import { getWrapErrorMessage } from '../lib/diagnostics';
+import getEmmetConfig from '../lib/config';
+import { startTracking, stopTracking } from '../abbreviation/AbbreviationTracker';
+
+/** Abbreviation suffix which enables trimming of list markers in wrapped lines */
+const trimFilter = '|t';
+
+/** List markers to strip from wrapped lines, like `-`, `*`, `1.` or `#` */
+const reListMarker = /^\s*(?:[-*+•]|#+|\d+[.)])\s+/;
 
 let lastAbbr = '';
 
-nova.commands.register('emmet.wrap-with-abbreviation', editor => {
-    const sel = editor.selectedRange;
-    nova.workspace.showInputPanel('Enter abbreviation', { value: lastAbbr }, value => {
+nova.commands.register('emmet.wrap-with-abbreviation', editor => wrapAction(editor, false));
+nova.commands.register('emmet.wrap-lines-with-abbreviation', editor => wrapAction(editor, true));
+nova.commands.register('emmet.wrap-with-abbreviation-interactive', editor => {
+    if (!getEmmetConfig().mark) {
+        // Interactive wrapper relies on abbreviation tracking, which is
+        // disabled: fallback to regular wrapper
+        return wrapAction(editor, false);
+    }
+
+    // Start forced abbreviation tracking right before wrapped contents:
+    // tracker will display wrapped result as preview
+    const range = getWrapRange(editor, editor.selectedRange);
+    const options = getOptions(editor, range.start);
+    options.text = getWrapContent(editor, range, true);
+
+    stopTracking(editor);
+    editor.selectedRange = new Range(range.start, range.start);
+    startTracking(editor, range.start, range.start, {
+        forced: true,
+        options,
+        wrap: editor.getTextInRange(range)
+    });
+});
+
+/**
+ * Asks user for abbreviation and wraps every selection with it.
+ * @param perLine Wrap each line of selection separately: lines are converted
+ * into repeated elements
+ */
+function wrapAction(editor: TextEditor, perLine: boolean) {
+    const selections = editor.selectedRanges.slice();
+    const message = perLine ? 'Enter abbreviation to wrap each line' : 'Enter abbreviation';
+    nova.workspace.showInputPanel(message, { value: lastAbbr }, value => {
         if (value == null) {
             return;
         }
 
         lastAbbr = value;
-        const options = getOptions(editor, sel.start);
-        const range = getWrapRange(editor, sel);
-        options.text = getWrapContent(editor, range, true);
 
         try {
-            const snippet = expand(editor, value, options);
-            replaceWithSnippet(editor, range, snippet);
+            replaceWithSnippets(editor, selections.map(sel => wrapSelection(editor, sel, value, perLine)));
+            addToHistory(value);
         } catch (err) {
-            let msg = 'Abbreviation is invalid';
-            if (err && err.pos) {
-                msg += ` at pos ${err.pos}`;
-            }
-            msg += ', unable to wrap';
-            nova.workspace.showErrorMessage(msg);
+            const { type } = syntaxInfo(editor, selections[0].start);
+            nova.workspace.showErrorMessage(getWrapErrorMessage(value, err, type));
         }
     });
-});
+}
+
+/**
+ * Wraps contents of given selection with abbreviation. Throws error if
+ * abbreviation is invalid
+ */
+export function wrapSelection(editor: TextEditor, sel: Range, abbr: string, perLine = false): SnippetReplacement {
+    let trim = false;
+    if (abbr.endsWith(trimFilter)) {
+        trim = true;
+        abbr = abbr.slice(0, -trimFilter.length);
+    }
+
+    const options = getOptions(editor, sel.start);
+    const range = getWrapRange(editor, sel);
+    let lines = getWrapContent(editor, range, true) as string[];
+
+    if (trim) {
+        lines = lines.map(line => line.replace(reListMarker, ''));
+    }
+
+    if (perLine) {
+        lines = lines.map(line => line.trim()).filter(Boolean);
+        abbr = repeatAbbreviation(abbr);
+    }
+
+    options.text = lines;
+
+    return {
+        range,
+        snippet: expand(editor, abbr, options)
+    };
+}
 
 /**
  * Returns region to wrap with abbreviation
@@ -82,6 +147,21 @@ function getWrapContent(editor: TextEditor, range: Range, splitLines = false): s
     return splitLines ? destLines : destLines.join('\n');
 }
 
+/**
+ * Ensures that given abbreviation contains implicit repeater, e.g. its last
+ * element will be repeated for each wrapped line: `ul>li` → `ul>li*`
+ */
+function repeatAbbreviation(abbr: string): string {
+    abbr = abbr.trim();
+    if (/\*(?!\d)/.test(abbr)) {
+        // Already contains implicit repeater
+        return abbr;
+    }
+
+    // Replace explicit repeater of last element, if any
+    return abbr.replace(/\*\d+$/, '') + '*';
+}
+
 function inRange(range: TextRange, pt: number) {
     return range[0] < pt && pt < range[1];
 }
@@ -1,11 +1,17 @@
 import { resolveConfig } from 'emmet';
-import { tokenize as markupTokenize, Literal as MarkupLiteral } from '@emmetio/abbreviation';
+import { tokenize as markupTokenize, Literal as MarkupLiteral, AllTokens as MarkupToken, Operator as MarkupOperator } from '@emmetio/abbreviation';
 import { tokenize as stylesheetTokenize, Literal as StylesheetLiteral } from '@emmetio/css-abbreviation';
 import { isEnabled, getTracker, extractTracker, AbbreviationTracker } from '../abbreviation';
 import { expand, knownTags } from '../lib/emmet';
-import { isSupported, isJSX, isCSS } from '../lib/syntax';
+import { isSupported, isJSX, docSyntax } from '../lib/syntax';
+import getEmmetConfig from '../lib/config';
+import { getSelectors, Selectors } from '../lib/selectors';
+import { getAttributeNames, getAttributeValues, attributeContextForPos } from '../lib/html-attributes';
 import { substr, toRange } from '../lib/utils';
 
+/** Abbreviation operators required by `requireOperator` option */
+const reOperator = /[>+*.#]/;
+
 /**
  * Creates completion provider which captures Emmet abbreviation as user types
  * and provides completion item with expanded preview.
@@ -19,7 +25,7 @@ export default function createProvider(): CompletionAssistant {
 
             const t = measureTime();
             let result: CompletionItem[] = [];
-            let tracker = getTracker(editor);
+            let tracker = getTracker(editor, ctx.position);
 
             if (!tracker && ctx.reason === CompletionReason.Invoke && allowTracking(editor)) {
                 // User forcibly requested completion popup
@@ -27,7 +33,7 @@ export default function createProvider(): CompletionAssistant {
                 t.mark('Extract tracking');
             }
 
-            if (tracker && canDisplayCompletion(tracker) && tracker.contains(ctx.position)) {
+            if (tracker && canDisplayCompletion(editor, tracker, ctx) && tracker.contains(ctx.position)) {
                 t.mark('Try completion');
                 result.push(createExpandAbbreviationCompletion(editor, tracker));
                 t.mark('Create abbreviation completion');
@@ -35,6 +41,13 @@ export default function createProvider(): CompletionAssistant {
                 t.mark('Create snippet completions');
             }
 
+            if (tracker?.abbreviation && tracker.contains(ctx.position) && tracker.options?.type === 'markup') {
+                // NB: abbreviations like `div.` or `a[target=` are invalid yet,
+                // but class names and attributes should be offered for them
+                result = result.concat(getTokenCompletions(editor, tracker, ctx));
+                t.mark('Create selector and attribute completions');
+            }
+
             t.mark(`Returned completions: ${result.length}`);
 
             // console.log(t.dump());
@@ -44,8 +57,20 @@ export default function createProvider(): CompletionAssistant {
     };
 }
 
-function canDisplayCompletion(tracker: AbbreviationTracker): boolean {
-    return tracker.abbreviation ? tracker.abbreviation.type === 'abbreviation' : false;
+function canDisplayCompletion(editor: TextEditor, tracker: AbbreviationTracker, ctx: CompletionContext): boolean {
+    if (tracker.abbreviation?.type !== 'abbreviation') {
+        return false;
+    }
+
+    if (tracker.forced || ctx.reason === CompletionReason.Invoke) {
+        // Explicitly requested completion ignores activation options
+        return true;
+    }
+
+    const { abbr } = tracker.abbreviation;
+    const config = getEmmetConfig(docSyntax(editor));
+    return abbr.length >= config.minAbbreviationLength
+        && (!config.requireOperator || reOperator.test(abbr));
 }
 
 /**
@@ -58,12 +83,16 @@ function createExpandAbbreviationCompletion(editor: TextEditor, tracker: Abbrevi
     const completion = new CompletionItem(abbr, CompletionItemKind.Expression);
     completion.filterText = substr(editor, tracker.range);
     completion.tokenize = true;
-    completion.range = toRange(tracker.range);
+    // For interactive wrapper, completion replaces wrapped contents as well
+    completion.range = tracker.wrap != null
+        ? new Range(tracker.range[0], tracker.range[1] + tracker.wrap.length)
+        : toRange(tracker.range);
     completion.insertText = expand(editor, abbr, tracker.options);
+    tracker.snippet = completion.insertText;
     completion.insertTextFormat = InsertTextFormat.Snippet;
     completion.detail = 'Emmet';
 
-    if (nova.config.get('emmet.preview-completion', 'boolean')) {
+    if (getEmmetConfig(docSyntax(editor)).preview) {
         completion.documentation = abbrData['preview'];
     }
 
@@ -74,7 +103,7 @@ function createExpandAbbreviationCompletion(editor: TextEditor, tracker: Abbrevi
  * Check if abbreviation tracking is allowed in given editor
  */
 function allowTracking(editor: TextEditor): boolean {
-    const syntax = editor.document.syntax;
+    const syntax = docSyntax(editor);
     return syntax ? isSupported(syntax) || isJSX(syntax) : false;
 }
 
@@ -85,10 +114,10 @@ function allowTracking(editor: TextEditor): boolean {
 function getSnippetsCompletions(tracker: AbbreviationTracker, ctx: CompletionContext): CompletionItem[] {
     const abbr = tracker.abbreviation!.abbr;
     const pos = ctx.position - tracker.range[0];
-    const syntax = tracker.options!.syntax!;
-    const result: CompletionItem[] = isCSS(syntax)
-        ? getStylesheetSnippetCompletions(abbr, pos, syntax)
-        : getMarkupSnippetCompletions(abbr, pos, syntax);
+    const { syntax, type } = tracker.options!;
+    const result: CompletionItem[] = type === 'stylesheet'
+        ? getStylesheetSnippetCompletions(abbr, pos, syntax!)
+        : getMarkupSnippetCompletions(abbr, pos, syntax!);
 
     return result;
 }
@@ -100,7 +129,7 @@ export function getMarkupSnippetCompletions(abbr: string, pos: number, syntax: s
     const nameToken = markupNameTokenForPos(abbr, pos);
     if (nameToken) {
         const prefix = abbr.slice(0, pos);
-        const config = resolveConfig({ type: 'markup', syntax });
+        const config = resolveConfig({ type: 'markup', syntax }, getEmmetConfig().config);
 
         const snippets = Object.keys(config.snippets)
             .concat(knownTags);
@@ -121,7 +150,7 @@ export function getStylesheetSnippetCompletions(abbr: string, pos: number, synta
     const nameToken = getNameTokenForPos(abbr, pos);
     if (nameToken) {
         const prefix = abbr.slice(0, pos);
-        const config = resolveConfig({ type: 'stylesheet', syntax });
+        const config = resolveConfig({ type: 'stylesheet', syntax }, getEmmetConfig().config);
 
         return Object.keys(config.snippets)
             .filter(name => name.startsWith(prefix) && name !== prefix)
@@ -132,6 +161,110 @@ export function getStylesheetSnippetCompletions(abbr: string, pos: number, synta
     return [];
 }
 
+/**
+ * Returns class, ID and attribute completions for markup abbreviation
+ * of given tracker
+ */
+function getTokenCompletions(editor: TextEditor, tracker: AbbreviationTracker, ctx: CompletionContext): CompletionItem[] {
+    const abbr = tracker.abbreviation!.abbr;
+    const start = tracker.range[0] + tracker.offset;
+    const pos = ctx.position - start;
+    if (markupSelectorTokenForPos(abbr, pos)) {
+        return getSelectorCompletions(abbr, pos, getSelectors(editor), start);
+    }
+
+    return getAttributeCompletions(abbr, pos, start);
+}
+
+/**
+ * Returns list of class or ID completions for markup abbreviation, if `pos`
+ * location is at class or ID name. The `offset` argument is a location
+ * of abbreviation in document
+ */
+export function getSelectorCompletions(abbr: string, pos: number, selectors: Selectors, offset = 0): CompletionItem[] {
+    const token = markupSelectorTokenForPos(abbr, pos);
+    if (token) {
+        const isClass = token.operator === 'class';
+        const prefix = abbr.slice(token.end, pos);
+        const names = isClass ? selectors.classes : selectors.ids;
+        return names
+            .filter(name => name.startsWith(prefix) && name !== prefix)
+            .sort()
+            .map(name => {
+                const completion = new CompletionItem(name, isClass ? CompletionItemKind.StyleClass : CompletionItemKind.StyleID);
+                completion.range = new Range(offset + pos - prefix.length, offset + pos);
+                completion.detail = 'Emmet';
+                return completion;
+            });
+    }
+
+    return [];
+}
+
+/**
+ * Returns list of attribute name or enumerated value completions for markup
+ * abbreviation, if `pos` location is inside attribute brackets. The `offset`
+ * argument is a location of abbreviation in document
+ */
+export function getAttributeCompletions(abbr: string, pos: number, offset = 0): CompletionItem[] {
+    const ctx = attributeContextForPos(abbr, pos);
+    if (ctx) {
+        const { prefix } = ctx;
+        const names = ctx.attribute != null
+            ? getAttributeValues(ctx.attribute, ctx.element)
+            : getAttributeNames(ctx.element);
+
+        return Array.from(new Set(names))
+            .filter(name => name.startsWith(prefix) && name !== prefix)
+            .map(name => {
+                const completion = new CompletionItem(name, ctx.attribute != null
+                    ? CompletionItemKind.EnumMember
+                    : CompletionItemKind.Property);
+                completion.range = new Range(offset + pos - prefix.length, offset + pos);
+                completion.detail = 'Emmet';
+                return completion;
+            });
+    }
+
+    return [];
+}
+
+/**
+ * Returns class or ID operator token from given abbreviation if `pos` location
+ * is at class name or ID right after this operator
+ */
+function markupSelectorTokenForPos(abbr: string, pos: number): MarkupOperator | undefined {
+    let brackets = 0;
+    let quote = false;
+    let prev: MarkupToken | undefined;
+    let tokens: MarkupToken[];
+
+    try {
+        tokens = markupTokenize(abbr);
+    } catch (err) {
+        // Abbreviation contains characters which can’t be tokenized
+        return;
+    }
+
+    for (const token of tokens) {
+        if (token.type === 'Bracket' && token.context !== 'group') {
+            brackets += token.open ? 1 : -1;
+        } else if (token.type === 'Quote') {
+            quote = !quote;
+        }
+
+        if (token.start! < pos && pos <= token.end!) {
+            const op = token.type === 'Literal' ? prev : token;
+            return op?.type === 'Operator' && (op.operator === 'class' || op.operator === 'id')
+                && !brackets && !quote
+                ? op
+                : void 0;
+        }
+
+        prev = token;
+    }
+}
+
 /**
  * Returns token for element name from given abbreviation that matches `pos` location
  */
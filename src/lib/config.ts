@@ -1,5 +1,8 @@
 import { GlobalConfig } from 'emmet';
 import { unescapeString } from './utils';
+import { getSnippetsConfig } from './snippets';
+import { getVSCodeConfig } from './vscode';
+import { getSyntaxType } from './syntax';
 
 type CodeStyle = 'html' | 'xhtml' | 'xml';
 
@@ -59,10 +62,80 @@ export interface EmmetConfig {
      */
     shortHex?: boolean;
 
+    /**
+     * Characters which must precede abbreviation in JSX syntaxes to capture it
+     * as-you-type. Empty string means abbreviations are captured without prefix
+     */
+    jsxPrefix: string;
+
+    /**
+     * Output pixel values of CSS abbreviations in JSX style objects as numbers:
+     * `padding: 10`. Otherwise, values are output as strings: `padding: '10px'`
+     */
+    jsxStyleNumbers: boolean;
+
+    /**
+     * Characters which may precede abbreviation to capture it as-you-type.
+     * Use `\s` for any whitespace character. Empty string means default
+     * word bounds
+     */
+    activationChars: string;
+
+    /**
+     * Capture abbreviation as-you-type only when it’s typed at line start
+     * or right after `<` character
+     */
+    lineStartActivation: boolean;
+
+    /** Minimum length of captured abbreviation to display completion */
+    minAbbreviationLength: number;
+
+    /**
+     * Display completion for captured abbreviation only when it contains
+     * an operator like `>`, `+`, `*`, `.` or `#`
+     */
+    requireOperator: boolean;
+
     /** Advanced Emmet config */
     config?: GlobalConfig;
 }
 
+/** List of all Emmet options, defined in extension manifest */
+export const configKeys = [
+    'emmet.enable-completions',
+    'emmet.preview-completion',
+    'emmet.ignored-syntaxes',
+    'emmet.code-style',
+    'emmet.attribute-quotes',
+    'emmet.comment',
+    'emmet.comment-template',
+    'emmet.bem',
+    'emmet.shortHex',
+    'emmet.jsx-prefix',
+    'emmet.jsx-style-numbers',
+    'emmet.activation-chars',
+    'emmet.line-start-activation',
+    'emmet.min-abbreviation-length',
+    'emmet.require-operator',
+    'emmet.syntax-overrides',
+    'emmet.syntax-mapping',
+];
+
+/** Config key for per-syntax option overrides */
+const overridesKey = 'emmet.syntax-overrides';
+
+/** Parsed workspace and global per-syntax overrides, reset on config change */
+let overridesCache: SyntaxOverrides[] | undefined;
+
+/**
+ * Workspace option value which means that global option should be used.
+ * Empty string values are inherited as well
+ */
+const inheritValue = 'global';
+
+/** Value of JSX prefix option which disables prefix */
+const noPrefixValue = 'none';
+
 export const defaultConfig: EmmetConfig = {
     mark: true,
     preview: true,
@@ -73,26 +146,213 @@ export const defaultConfig: EmmetConfig = {
     markupStyle: 'html',
     comments: false,
     commentsTemplate: '<!-- /[#ID][.CLASS] -->',
-    bem: false
+    bem: false,
+    jsxPrefix: '<',
+    jsxStyleNumbers: true,
+    activationChars: '',
+    lineStartActivation: false,
+    minAbbreviationLength: 1,
+    requireOperator: false
 };
 
-export default function getEmmetConfig(opt?: Partial<EmmetConfig>): EmmetConfig {
-    const markupStyle = nova.config.get('emmet.code-style', 'string')!.toLowerCase() as CodeStyle;
-    const attributeQuotes = nova.config.get('emmet.attribute-quotes', 'string') === 'single'
+interface SyntaxOverrides {
+    [syntax: string]: { [key: string]: string };
+}
+
+/**
+ * Returns Emmet config for given syntax. Every option is resolved in layers:
+ * global preferences, workspace preferences, then per-syntax overrides
+ * from global and workspace preferences
+ */
+export default function getEmmetConfig(syntax?: string, opt?: Partial<EmmetConfig>): EmmetConfig {
+    const markupStyle = getString('emmet.code-style', syntax).toLowerCase() as CodeStyle;
+    const attributeQuotes = getString('emmet.attribute-quotes', syntax) === 'single'
         ? 'single' : 'double';
 
     return {
-        mark: nova.config.get('emmet.enable-completions', 'boolean')!,
-        preview: nova.config.get('emmet.preview-completion', 'boolean')!,
+        mark: getBoolean('emmet.enable-completions', syntax),
+        preview: getBoolean('emmet.preview-completion', syntax),
         autoRenameTags: false,  // Not supported in Nova
         markTagPairs: false, // Not supported in Nova
         previewOpenTag: false,  // Not supported in Nova
         attributeQuotes,
         markupStyle,
-        comments: nova.config.get('emmet.comment', 'boolean')!,
-        commentsTemplate: unescapeString(nova.config.get('emmet.comment-template', 'string')!),
-        bem: nova.config.get('emmet.bem', 'boolean')!,
-        shortHex: nova.config.get('emmet.shortHex', 'boolean')!,
+        comments: getBoolean('emmet.comment', syntax),
+        commentsTemplate: unescapeString(getString('emmet.comment-template', syntax)),
+        bem: getBoolean('emmet.bem', syntax),
+        shortHex: getBoolean('emmet.shortHex', syntax),
+        jsxPrefix: getJSXPrefix(syntax),
+        jsxStyleNumbers: getBoolean('emmet.jsx-style-numbers', syntax),
+        activationChars: getString('emmet.activation-chars', syntax).trim(),
+        lineStartActivation: getBoolean('emmet.line-start-activation', syntax),
+        minAbbreviationLength: getNumber('emmet.min-abbreviation-length', syntax, defaultConfig.minAbbreviationLength),
+        requireOperator: getBoolean('emmet.require-operator', syntax),
+        config: getUserConfig(),
         ...opt
     };
 }
+
+/**
+ * Returns raw value of given Emmet option for given syntax, if specified
+ */
+export function getOption(key: string, syntax?: string): ConfigurationValue {
+    const override = syntax ? getSyntaxOverride(key, syntax) : undefined;
+    if (override != null) {
+        return override;
+    }
+
+    const value = nova.workspace.config.get(key);
+    if (value != null && value !== '' && value !== inheritValue) {
+        return value;
+    }
+
+    return nova.config.get(key);
+}
+
+/**
+ * Returns value of given option explicitly overridden for given syntax
+ * (or its type) either in workspace or global preferences
+ */
+export function getSyntaxOverride(key: string, syntax: string): string | undefined {
+    const name = key.replace(/^emmet\./, '');
+    const type = getSyntaxType(syntax);
+    if (!overridesCache) {
+        overridesCache = [
+            parseSyntaxOverrides(nova.workspace.config.get(overridesKey, 'string')),
+            parseSyntaxOverrides(nova.config.get(overridesKey, 'string')),
+        ];
+    }
+
+    for (const ctx of overridesCache) {
+        for (const target of [syntax, type]) {
+            if (ctx[target] && name in ctx[target]) {
+                return ctx[target][name];
+            }
+        }
+    }
+}
+
+/**
+ * Parses per-syntax option overrides. Each line of given text contains
+ * comma-separated syntax names and semicolon-separated options for them:
+ * `html, php: comment=true; bem=true`
+ */
+export function parseSyntaxOverrides(text?: string | null): SyntaxOverrides {
+    const result: SyntaxOverrides = {};
+    if (!text) {
+        return result;
+    }
+
+    for (const line of text.split(/[\r\n]+/)) {
+        const sep = line.indexOf(':');
+        if (sep === -1) {
+            continue;
+        }
+
+        const options: { [key: string]: string } = {};
+        for (const item of line.slice(sep + 1).split(';')) {
+            const eq = item.indexOf('=');
+            if (eq !== -1) {
+                const key = item.slice(0, eq).trim().replace(/^emmet\./, '');
+                if (key) {
+                    options[key] = item.slice(eq + 1).trim();
+                }
+            }
+        }
+
+        for (const syntax of line.slice(0, sep).split(',')) {
+            const name = syntax.trim().toLowerCase();
+            if (name) {
+                result[name] = { ...result[name], ...options };
+            }
+        }
+    }
+
+    return result;
+}
+
+function getString(key: string, syntax?: string): string {
+    const value = getOption(key, syntax);
+    return value != null ? String(value) : '';
+}
+
+function getJSXPrefix(syntax?: string): string {
+    const value = getString('emmet.jsx-prefix', syntax).trim();
+    if (!value) {
+        return defaultConfig.jsxPrefix;
+    }
+
+    return value.toLowerCase() === noPrefixValue ? '' : value;
+}
+
+function getNumber(key: string, syntax: string | undefined, defaultValue: number): number {
+    const value = getOption(key, syntax);
+    const num = value != null && value !== '' ? Number(value) : NaN;
+    return isNaN(num) ? defaultValue : num;
+}
+
+function getBoolean(key: string, syntax?: string): boolean {
+    const value = getOption(key, syntax);
+    if (typeof value === 'string') {
+        return /^(true|yes|on|1|enabled?)$/i.test(value.trim());
+    }
+
+    return !!value;
+}
+
+/**
+ * Invokes given `callback` whenever any of Emmet options is changed in either
+ * global or workspace config
+ */
+export function onDidChangeConfig(callback: (key: string) => void): Disposable {
+    const disposable = new CompositeDisposable();
+    const onChange = (key: string) => {
+        if (key === overridesKey) {
+            overridesCache = undefined;
+        }
+        callback(key);
+    };
+
+    for (const key of configKeys) {
+        disposable.add(nova.config.onDidChange(key, () => onChange(key)));
+        disposable.add(nova.workspace.config.onDidChange(key, () => onChange(key)));
+    }
+
+    return disposable;
+}
+
+/**
+ * Returns advanced Emmet config from workspace files: VS Code settings and
+ * Emmet snippets file. Snippets file takes precedence
+ */
+function getUserConfig(): GlobalConfig | undefined {
+    const vscode = getVSCodeConfig();
+    const snippets = getSnippetsConfig();
+
+    if (vscode && snippets) {
+        return mergeConfig(vscode.config, snippets);
+    }
+
+    return snippets || vscode?.config;
+}
+
+/**
+ * Merges given Emmet global configs into a new one
+ */
+function mergeConfig(...configs: GlobalConfig[]): GlobalConfig {
+    const result: GlobalConfig = {};
+    for (const config of configs) {
+        for (const syntax of Object.keys(config)) {
+            const section = { ...result[syntax] };
+            const next = config[syntax];
+            for (const key of Object.keys(next)) {
+                section[key] = typeof next[key] === 'object'
+                    ? { ...section[key], ...next[key] }
+                    : next[key];
+            }
+            result[syntax] = section;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,175 @@
+import { SyntaxType } from 'emmet';
+import { AbbrError } from './utils';
+
+export interface AbbrErrorInfo {
+    /** Explanation of what’s wrong with abbreviation */
+    message: string;
+    /** Suggested fix, if any */
+    hint?: string;
+}
+
+interface OpenBracket {
+    ch: string;
+    pos: number;
+}
+
+const pairs = {
+    '[': ']',
+    '{': '}',
+    '(': ')'
+};
+
+const bracketNames = {
+    '[': 'attribute list',
+    '{': 'text',
+    '(': 'group'
+};
+
+const closing = {
+    ']': '[',
+    '}': '{',
+    ')': '('
+};
+
+/**
+ * Returns human-readable explanation of given abbreviation parsing error,
+ * with fix suggestion
+ */
+export function getErrorMessage(abbr: string, err: AbbrError, type?: SyntaxType): string {
+    const { message, hint } = explainError(abbr, err, type);
+    return hint ? `${message}. ${hint}` : message;
+}
+
+/**
+ * Returns message for error of abbreviation which is used for wrapping
+ */
+export function getWrapErrorMessage(abbr: string, err: AbbrError, type?: SyntaxType): string {
+    let msg = 'Unable to wrap: abbreviation is invalid';
+    if (err && err.pos != null) {
+        msg += ` at pos ${err.pos}`;
+    }
+    return `${msg}. ${getErrorMessage(abbr, err, type)}`;
+}
+
+/**
+ * Rewrites Emmet parser error for given abbreviation into clear explanation
+ */
+export function explainError(abbr: string, err: AbbrError, type: SyntaxType = 'markup'): AbbrErrorInfo {
+    if (!err || err.pos == null) {
+        return { message: err ? cleanMessage(err.message) : 'Unknown error' };
+    }
+
+    const { pos } = err;
+    const ch = abbr.charAt(pos);
+
+    if (/^Unclosed quote/.test(err.message)) {
+        return {
+            message: `Unclosed ${ch} quote`,
+            hint: `Add closing ${ch}`
+        };
+    }
+
+    if (!ch) {
+        return { message: 'Unexpected end of abbreviation' };
+    }
+
+    const open = openBrackets(abbr, pos);
+    const last = open[open.length - 1];
+
+    if (ch in closing) {
+        if (!last) {
+            return {
+                message: `Unexpected “${ch}”, there’s no matching “${closing[ch]}”`,
+                hint: `Remove it or add “${closing[ch]}” before it`
+            };
+        }
+
+        if (pairs[last.ch] !== ch) {
+            return {
+                message: `Unexpected “${ch}”, ${bracketNames[last.ch]} opened with “${last.ch}” at pos ${last.pos} is not closed`,
+                hint: `Replace it with “${pairs[last.ch]}”`
+            };
+        }
+    }
+
+    if (ch === '*') {
+        if (type === 'stylesheet') {
+            return { message: 'Multiplier “*” is not supported in stylesheet abbreviations' };
+        }
+
+        if (pos === 0 || /[>+^(]/.test(abbr[pos - 1])) {
+            return {
+                message: 'Multiplier “*” must follow an element',
+                hint: 'Add element before it, like “li*3”'
+            };
+        }
+
+        return {
+            message: 'Element already has a multiplier',
+            hint: 'Use group to repeat it again, like “(li*2)*3”'
+        };
+    }
+
+    if (/\s/.test(ch) || ch === ',') {
+        return {
+            message: /\s/.test(ch) ? 'Unexpected space' : 'Unexpected “,”',
+            hint: type === 'stylesheet'
+                ? 'Use “+” to combine properties, like “p10+m5”'
+                : 'Use “>” for child or “+” for sibling element'
+        };
+    }
+
+    if (ch === '@' && type !== 'stylesheet') {
+        return {
+            message: 'Unexpected “@”',
+            hint: 'Numbering modifier must follow “$”, like “item$@3”'
+        };
+    }
+
+    if (type === 'stylesheet' && ch in pairs) {
+        return { message: `Brackets “${ch}” are not allowed in stylesheet abbreviations here` };
+    }
+
+    return { message: `Unexpected character “${ch}”` };
+}
+
+/**
+ * Returns list of brackets which are not closed before given `pos`
+ * in abbreviation. Brackets in quoted strings are ignored
+ */
+function openBrackets(abbr: string, pos: number): OpenBracket[] {
+    const stack: OpenBracket[] = [];
+    let quote = '';
+
+    for (let i = 0; i < pos; i++) {
+        const ch = abbr[i];
+        const last = stack[stack.length - 1];
+        if (last && last.ch === '{' && ch !== '}') {
+            // Text content: brackets and quotes are literal characters
+            continue;
+        }
+
+        if (quote) {
+            if (ch === quote) {
+                quote = '';
+            }
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch in pairs) {
+            stack.push({ ch, pos: i });
+        } else if (ch in closing) {
+            if (last && pairs[last.ch] === ch) {
+                stack.pop();
+            }
+        }
+    }
+
+    return stack;
+}
+
+/**
+ * Removes position and source excerpt from parser error message
+ */
+function cleanMessage(message: string): string {
+    return message.split('\n')[0].replace(/\s+at\s+\d+$/, '');
+}
@@ -1,11 +1,13 @@
-import expandAbbreviation, { extract as extractAbbreviation, UserConfig, AbbreviationContext, ExtractedAbbreviation, Options, ExtractOptions, resolveConfig, MarkupAbbreviation, StylesheetAbbreviation, SyntaxType } from 'emmet';
+import expandAbbreviation, { extract as extractAbbreviation, UserConfig, AbbreviationContext, ExtractedAbbreviation, Options, ExtractOptions, resolveConfig, MarkupAbbreviation, StylesheetAbbreviation, SyntaxType, CSSAbbreviationScope } from 'emmet';
 import match, { balancedInward, balancedOutward } from '@emmetio/html-matcher';
 import { balancedInward as cssBalancedInward, balancedOutward as cssBalancedOutward } from '@emmetio/css-matcher';
 import { selectItemCSS, selectItemHTML, TextRange } from '@emmetio/action-utils';
-import { isXML, syntaxInfo, docSyntax, getMarkupAbbreviationContext, getStylesheetAbbreviationContext } from './syntax';
+import { isXML, syntaxInfo, docSyntax, getSyntaxContent, getMarkupAbbreviationContext, getStylesheetAbbreviationContext, getIndentedAbbreviationContext } from './syntax';
 import { getContent, isQuotedString } from './utils';
 import getEmmetConfig from './config';
 import getOutputOptions, { field } from './output';
+import { expandStyleObject } from './style-object';
+import { hasTemplateBlocks, matchTemplateBlock } from './template-blocks';
 
 export interface ContextTag extends AbbreviationContext {
     open: TextRange;
@@ -13,13 +15,11 @@ export interface ContextTag extends AbbreviationContext {
 }
 
 /**
- * Cache for storing internal Emmet data.
- * TODO reset whenever user settings are changed
+ * Cache for storing internal Emmet data. Reset it with `resetCache()` whenever
+ * user settings are changed
  */
 let cache = {};
 
-export const JSX_PREFIX = '<';
-
 export const knownTags = [
     'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio',
     'b', 'base', 'bdi', 'bdo', 'blockquote', 'body', 'br', 'button',
@@ -42,6 +42,14 @@ export const knownTags = [
     'u', 'ul', 'var', 'video', 'wbr'
 ];
 
+/**
+ * Resets internal Emmet cache. Must be called whenever Emmet config (like
+ * snippets) is changed
+ */
+export function resetCache() {
+    cache = {};
+}
+
 /**
  * Expands given abbreviation into code snippet
  */
@@ -61,11 +69,16 @@ export function expand(editor: TextEditor, abbr: string | MarkupAbbreviation | S
 
     opt.options = outputOpt;
 
-    const pluginConfig = getEmmetConfig();
+    const pluginConfig = getEmmetConfig(docSyntax(editor));
     if (pluginConfig.config) {
         opt = resolveConfig(opt, pluginConfig.config);
     }
 
+    if (opt.type === 'stylesheet' && outputOpt['stylesheet.json']) {
+        // CSS abbreviation in JSX style object
+        return expandStyleObject(abbr as string | StylesheetAbbreviation, resolveConfig(opt), pluginConfig.jsxStyleNumbers);
+    }
+
     return expandAbbreviation(abbr as string, opt);
 }
 
@@ -120,7 +133,7 @@ export function selectItem(code: string, pos: number, isCSS?: boolean, isPreviou
  * Returns matched HTML/XML tag for given point in view
  */
 export function getTagContext(editor: TextEditor, pos: number, xml?: boolean): ContextTag | undefined {
-    const content = getContent(editor);
+    const content = getSyntaxContent(editor);
     let ctx: ContextTag | undefined;
 
     if (xml == null) {
@@ -154,6 +167,29 @@ export function getTagContext(editor: TextEditor, pos: number, xml?: boolean): C
     return ctx;
 }
 
+/**
+ * Same as `getTagContext()` but also matches template blocks like
+ * `{% if %}...{% endif %}` or `@section...@endsection`: returns whichever
+ * of tag and block is innermost for given location
+ */
+export function getTagOrBlockContext(editor: TextEditor, pos: number, xml?: boolean): ContextTag | undefined {
+    const tag = getTagContext(editor, pos, xml);
+    const syntax = docSyntax(editor);
+
+    if (hasTemplateBlocks(syntax)) {
+        const block = matchTemplateBlock(getSyntaxContent(editor), pos, syntax);
+        if (block && (!tag || block.open[0] > tag.open[0])) {
+            return {
+                name: block.name,
+                open: block.open,
+                close: block.close
+            };
+        }
+    }
+
+    return tag;
+}
+
 /**
  * Returns Emmet options for given character location in editor
  */
@@ -164,16 +200,22 @@ export function getOptions(editor: TextEditor, pos: number): UserConfig {
     const config: UserConfig = {
         type: info.type,
         syntax: info.syntax || 'html',
-        options: getOutputOptions(editor, pos, info.inline)
+        options: getOutputOptions(editor, pos, info.inline, info.syntax)
     };
 
-    if (context) {
+    if (info.styleObject) {
+        // Output properties of JSX style object: `style={{ padding: 10 }}`
+        config.context = { name: CSSAbbreviationScope.Property };
+        config.options!['stylesheet.json'] = true;
+    } else if (context) {
         const content = getContent(editor);
         // Set context from syntax info
         if (context.type === 'html' && context.ancestors.length) {
             config.context = getMarkupAbbreviationContext(content, context);
         } else if (context.type === 'css') {
             config.context = getStylesheetAbbreviationContext(context);
+        } else if (context.type === 'indented') {
+            config.context = getIndentedAbbreviationContext(context);
         }
     }
 
@@ -0,0 +1,76 @@
+import { mkdirp, readTextFile } from './utils';
+
+/** Name of abbreviation history file in workspace storage of extension */
+const historyFile = 'abbreviation-history.json';
+
+/** Max amount of abbreviations to keep in history */
+const maxItems = 50;
+
+let history: string[] | undefined;
+
+/**
+ * Returns list of recently used abbreviations in current workspace,
+ * most recent first
+ */
+export function getHistory(): string[] {
+    if (!history) {
+        history = loadHistory();
+    }
+
+    return history;
+}
+
+/**
+ * Adds given abbreviation to history of current workspace and saves it
+ */
+export function addToHistory(abbr: string) {
+    abbr = abbr.trim();
+    if (!abbr) {
+        return;
+    }
+
+    const items = getHistory().filter(item => item !== abbr);
+    items.unshift(abbr);
+    history = items.slice(0, maxItems);
+    saveHistory(history);
+}
+
+/**
+ * Parses contents of history file
+ */
+export function parseHistory(text: string): string[] {
+    try {
+        const data = JSON.parse(text);
+        if (Array.isArray(data)) {
+            return data
+                .filter(item => typeof item === 'string' && item)
+                .slice(0, maxItems);
+        }
+    } catch (err) {
+        // Broken history file, ignore it
+    }
+
+    return [];
+}
+
+function loadHistory(): string[] {
+    const text = readTextFile(getHistoryPath());
+    return text ? parseHistory(text) : [];
+}
+
+function saveHistory(items: string[]) {
+    const filePath = getHistoryPath();
+    try {
+        mkdirp(nova.path.dirname(filePath));
+        const file = nova.fs.open(filePath, 'w');
+        file.write(JSON.stringify(items));
+        file.close();
+    } catch (err) {
+        // Unable to save history, e.g. storage is not writable: history
+        // is kept in memory for current session then
+    }
+}
+
+function getHistoryPath(): string {
+    return nova.path.join(nova.extension.workspaceStoragePath, historyFile);
+}
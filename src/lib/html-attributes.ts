@@ -0,0 +1,301 @@
+import { tokenize, AllTokens } from '@emmetio/abbreviation';
+
+type AttributeMap = { [name: string]: string[] };
+
+export interface AttributeContext {
+    /** Name of element which attributes are completed, if known */
+    element?: string;
+    /** Name of attribute which value is completed */
+    attribute?: string;
+    /** Typed part of attribute name or value */
+    prefix: string;
+}
+
+/** Attributes available for every HTML element */
+const globalAttributes = [
+    'accesskey', 'autocapitalize', 'autofocus', 'class', 'contenteditable',
+    'dir', 'draggable', 'enterkeyhint', 'hidden', 'id', 'inert', 'inputmode',
+    'is', 'itemid', 'itemprop', 'itemref', 'itemscope', 'itemtype', 'lang',
+    'nonce', 'part', 'popover', 'role', 'slot', 'spellcheck', 'style',
+    'tabindex', 'title', 'translate', 'data-'
+];
+
+/** WAI-ARIA state and property attributes, available for every element */
+const ariaAttributes = [
+    'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-busy',
+    'aria-checked', 'aria-colcount', 'aria-colindex', 'aria-colspan',
+    'aria-controls', 'aria-current', 'aria-describedby', 'aria-description',
+    'aria-details', 'aria-disabled', 'aria-errormessage', 'aria-expanded',
+    'aria-flowto', 'aria-haspopup', 'aria-hidden', 'aria-invalid',
+    'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level',
+    'aria-live', 'aria-modal', 'aria-multiline', 'aria-multiselectable',
+    'aria-orientation', 'aria-owns', 'aria-placeholder', 'aria-posinset',
+    'aria-pressed', 'aria-readonly', 'aria-relevant', 'aria-required',
+    'aria-roledescription', 'aria-rowcount', 'aria-rowindex', 'aria-rowspan',
+    'aria-selected', 'aria-setsize', 'aria-sort', 'aria-valuemax',
+    'aria-valuemin', 'aria-valuenow', 'aria-valuetext'
+];
+
+/** Element-specific attributes */
+const elementAttributes: AttributeMap = {
+    a: ['download', 'href', 'hreflang', 'ping', 'referrerpolicy', 'rel', 'target', 'type'],
+    area: ['alt', 'coords', 'download', 'href', 'ping', 'referrerpolicy', 'rel', 'shape', 'target'],
+    audio: ['autoplay', 'controls', 'crossorigin', 'loop', 'muted', 'preload', 'src'],
+    base: ['href', 'target'],
+    blockquote: ['cite'],
+    button: ['disabled', 'form', 'formaction', 'formenctype', 'formmethod', 'formnovalidate', 'formtarget', 'name', 'popovertarget', 'popovertargetaction', 'type', 'value'],
+    canvas: ['height', 'width'],
+    col: ['span'],
+    colgroup: ['span'],
+    data: ['value'],
+    del: ['cite', 'datetime'],
+    details: ['name', 'open'],
+    dialog: ['open'],
+    embed: ['height', 'src', 'type', 'width'],
+    fieldset: ['disabled', 'form', 'name'],
+    form: ['accept-charset', 'action', 'autocomplete', 'enctype', 'method', 'name', 'novalidate', 'rel', 'target'],
+    iframe: ['allow', 'allowfullscreen', 'height', 'loading', 'name', 'referrerpolicy', 'sandbox', 'src', 'srcdoc', 'width'],
+    img: ['alt', 'crossorigin', 'decoding', 'fetchpriority', 'height', 'ismap', 'loading', 'referrerpolicy', 'sizes', 'src', 'srcset', 'usemap', 'width'],
+    input: ['accept', 'alt', 'autocomplete', 'capture', 'checked', 'dirname', 'disabled', 'form', 'formaction', 'formenctype', 'formmethod', 'formnovalidate', 'formtarget', 'height', 'list', 'max', 'maxlength', 'min', 'minlength', 'multiple', 'name', 'pattern', 'placeholder', 'popovertarget', 'popovertargetaction', 'readonly', 'required', 'size', 'src', 'step', 'type', 'value', 'width'],
+    ins: ['cite', 'datetime'],
+    label: ['for'],
+    li: ['value'],
+    link: ['as', 'crossorigin', 'disabled', 'fetchpriority', 'href', 'hreflang', 'integrity', 'media', 'referrerpolicy', 'rel', 'sizes', 'type'],
+    map: ['name'],
+    meta: ['charset', 'content', 'http-equiv', 'media', 'name'],
+    meter: ['high', 'low', 'max', 'min', 'optimum', 'value'],
+    object: ['data', 'form', 'height', 'name', 'type', 'width'],
+    ol: ['reversed', 'start', 'type'],
+    optgroup: ['disabled', 'label'],
+    option: ['disabled', 'label', 'selected', 'value'],
+    output: ['for', 'form', 'name'],
+    progress: ['max', 'value'],
+    q: ['cite'],
+    script: ['async', 'crossorigin', 'defer', 'fetchpriority', 'integrity', 'nomodule', 'referrerpolicy', 'src', 'type'],
+    select: ['autocomplete', 'disabled', 'form', 'multiple', 'name', 'required', 'size'],
+    slot: ['name'],
+    source: ['height', 'media', 'sizes', 'src', 'srcset', 'type', 'width'],
+    style: ['media'],
+    td: ['colspan', 'headers', 'rowspan'],
+    template: ['shadowrootmode'],
+    textarea: ['autocomplete', 'cols', 'dirname', 'disabled', 'form', 'maxlength', 'minlength', 'name', 'placeholder', 'readonly', 'required', 'rows', 'wrap'],
+    th: ['abbr', 'colspan', 'headers', 'rowspan', 'scope'],
+    time: ['datetime'],
+    track: ['default', 'kind', 'label', 'src', 'srclang'],
+    video: ['autoplay', 'controls', 'crossorigin', 'height', 'loop', 'muted', 'playsinline', 'poster', 'preload', 'src', 'width']
+};
+
+const boolean = ['true', 'false'];
+const linkTypes = ['alternate', 'author', 'bookmark', 'external', 'help', 'license', 'next', 'nofollow', 'noopener', 'noreferrer', 'prev', 'search', 'tag'];
+const referrerPolicies = ['no-referrer', 'no-referrer-when-downgrade', 'origin', 'origin-when-cross-origin', 'same-origin', 'strict-origin', 'strict-origin-when-cross-origin', 'unsafe-url'];
+const targets = ['_blank', '_parent', '_self', '_top'];
+const formMethods = ['get', 'post', 'dialog'];
+const formEnctypes = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+
+/** Enumerated values of attributes, applicable to any element */
+const attributeValues: AttributeMap = {
+    autocapitalize: ['off', 'none', 'on', 'sentences', 'words', 'characters'],
+    autocomplete: ['on', 'off', 'name', 'email', 'username', 'new-password', 'current-password', 'one-time-code', 'organization', 'street-address', 'country', 'postal-code', 'tel', 'url'],
+    contenteditable: ['true', 'false', 'plaintext-only'],
+    crossorigin: ['anonymous', 'use-credentials'],
+    decoding: ['sync', 'async', 'auto'],
+    dir: ['ltr', 'rtl', 'auto'],
+    draggable: boolean,
+    enctype: formEnctypes,
+    enterkeyhint: ['enter', 'done', 'go', 'next', 'previous', 'search', 'send'],
+    fetchpriority: ['high', 'low', 'auto'],
+    formenctype: formEnctypes,
+    formmethod: formMethods,
+    formtarget: targets,
+    inputmode: ['none', 'text', 'decimal', 'numeric', 'tel', 'search', 'email', 'url'],
+    kind: ['subtitles', 'captions', 'descriptions', 'chapters', 'metadata'],
+    loading: ['eager', 'lazy'],
+    method: formMethods,
+    popover: ['auto', 'manual'],
+    popovertargetaction: ['hide', 'show', 'toggle'],
+    preload: ['none', 'metadata', 'auto'],
+    referrerpolicy: referrerPolicies,
+    rel: linkTypes,
+    role: [
+        'alert', 'alertdialog', 'application', 'article', 'banner', 'button',
+        'cell', 'checkbox', 'columnheader', 'combobox', 'complementary',
+        'contentinfo', 'definition', 'dialog', 'document', 'feed', 'figure',
+        'form', 'grid', 'gridcell', 'group', 'heading', 'img', 'link', 'list',
+        'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu',
+        'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+        'navigation', 'none', 'note', 'option', 'presentation', 'progressbar',
+        'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
+        'scrollbar', 'search', 'searchbox', 'separator', 'slider',
+        'spinbutton', 'status', 'switch', 'tab', 'table', 'tablist',
+        'tabpanel', 'term', 'textbox', 'timer', 'toolbar', 'tooltip', 'tree',
+        'treegrid', 'treeitem'
+    ],
+    sandbox: ['allow-downloads', 'allow-forms', 'allow-modals', 'allow-popups', 'allow-same-origin', 'allow-scripts', 'allow-top-navigation'],
+    scope: ['row', 'col', 'rowgroup', 'colgroup'],
+    shadowrootmode: ['open', 'closed'],
+    shape: ['rect', 'circle', 'poly', 'default'],
+    spellcheck: boolean,
+    target: targets,
+    translate: ['yes', 'no'],
+    wrap: ['hard', 'soft'],
+
+    'aria-autocomplete': ['inline', 'list', 'both', 'none'],
+    'aria-busy': boolean,
+    'aria-checked': ['true', 'false', 'mixed'],
+    'aria-current': ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+    'aria-disabled': boolean,
+    'aria-expanded': boolean,
+    'aria-haspopup': ['true', 'false', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+    'aria-hidden': boolean,
+    'aria-invalid': ['true', 'false', 'grammar', 'spelling'],
+    'aria-live': ['off', 'polite', 'assertive'],
+    'aria-modal': boolean,
+    'aria-orientation': ['horizontal', 'vertical'],
+    'aria-pressed': ['true', 'false', 'mixed'],
+    'aria-readonly': boolean,
+    'aria-relevant': ['additions', 'removals', 'text', 'all'],
+    'aria-required': boolean,
+    'aria-selected': boolean,
+    'aria-sort': ['ascending', 'descending', 'none', 'other']
+};
+
+/** Enumerated attribute values which differ for specific elements */
+const elementAttributeValues: { [element: string]: AttributeMap } = {
+    button: {
+        type: ['button', 'submit', 'reset']
+    },
+    input: {
+        type: [
+            'button', 'checkbox', 'color', 'date', 'datetime-local', 'email',
+            'file', 'hidden', 'image', 'month', 'number', 'password', 'radio',
+            'range', 'reset', 'search', 'submit', 'tel', 'text', 'time', 'url',
+            'week'
+        ]
+    },
+    link: {
+        as: ['audio', 'document', 'embed', 'fetch', 'font', 'image', 'object', 'script', 'style', 'track', 'video', 'worker'],
+        rel: ['alternate', 'author', 'canonical', 'dns-prefetch', 'help', 'icon', 'license', 'manifest', 'modulepreload', 'next', 'pingback', 'preconnect', 'prefetch', 'preload', 'prev', 'search', 'stylesheet']
+    },
+    meta: {
+        'http-equiv': ['content-security-policy', 'content-type', 'default-style', 'refresh', 'x-ua-compatible'],
+        name: ['application-name', 'author', 'color-scheme', 'description', 'generator', 'keywords', 'referrer', 'robots', 'theme-color', 'viewport']
+    },
+    ol: {
+        type: ['1', 'a', 'A', 'i', 'I']
+    },
+    script: {
+        type: ['module', 'importmap', 'text/javascript']
+    },
+    textarea: {
+        autocomplete: ['on', 'off']
+    }
+};
+
+/**
+ * Returns list of attribute names available for given element. If element
+ * is unknown, only global attributes are returned
+ */
+export function getAttributeNames(element?: string): string[] {
+    const own = element && elementAttributes[element.toLowerCase()] || [];
+    return own.concat(globalAttributes, ariaAttributes);
+}
+
+/**
+ * Returns list of enumerated values of given attribute for specified element
+ */
+export function getAttributeValues(attribute: string, element?: string): string[] {
+    attribute = attribute.toLowerCase();
+    const own = element && elementAttributeValues[element.toLowerCase()];
+    return own && own[attribute] || attributeValues[attribute] || [];
+}
+
+/**
+ * Detects attribute context for `pos` location of given markup abbreviation:
+ * if location is inside attribute brackets, returns name of element these
+ * attributes belong to, typed prefix and, if location is at attribute value,
+ * name of this attribute
+ */
+export function attributeContextForPos(abbr: string, pos: number): AttributeContext | undefined {
+    let element: string | undefined;
+    let attribute: string | undefined;
+    let inAttributes = false;
+    let inValue = false;
+    let quote = false;
+    let prev: AllTokens | undefined;
+    let tokens: AllTokens[];
+
+    try {
+        tokens = tokenize(abbr);
+    } catch (err) {
+        // Abbreviation contains characters which can’t be tokenized
+        return;
+    }
+
+    for (const token of tokens) {
+        if (token.start! >= pos) {
+            break;
+        }
+
+        const atPos = pos <= token.end!;
+        const prefix = abbr.slice(token.start, pos);
+
+        if (!inAttributes) {
+            if (token.type === 'Bracket' && token.context === 'attribute' && token.open) {
+                inAttributes = true;
+                inValue = false;
+                attribute = void 0;
+                if (atPos) {
+                    return { element, prefix: '' };
+                }
+            } else if (token.type === 'Literal' && (!prev || isStructuralToken(prev))) {
+                element = token.value;
+            } else if (isStructuralToken(token)) {
+                element = void 0;
+            }
+        } else if (token.type === 'Quote') {
+            quote = !quote;
+            if (!quote) {
+                inValue = false;
+            } else if (atPos && inValue) {
+                return { element, attribute, prefix: '' };
+            }
+        } else if (quote) {
+            if (atPos && inValue && token.type === 'Literal') {
+                return { element, attribute, prefix };
+            }
+        } else if (token.type === 'Bracket' && token.context === 'attribute') {
+            inAttributes = false;
+        } else if (token.type === 'WhiteSpace') {
+            inValue = false;
+            attribute = void 0;
+            if (atPos) {
+                return { element, prefix: '' };
+            }
+        } else if (token.type === 'Operator' && token.operator === 'equal') {
+            inValue = true;
+            if (atPos) {
+                return { element, attribute, prefix: '' };
+            }
+        } else if (token.type === 'Literal') {
+            if (atPos) {
+                return inValue
+                    ? { element, attribute, prefix }
+                    : { element, prefix };
+            }
+
+            if (!inValue) {
+                attribute = token.value;
+            }
+        }
+
+        prev = token;
+    }
+}
+
+/**
+ * Check if given token starts new element in abbreviation
+ */
+function isStructuralToken(token: AllTokens): boolean {
+    return (token.type === 'Operator' && (token.operator === 'child' || token.operator === 'sibling' || token.operator === 'climb'))
+        || (token.type === 'Bracket' && token.context === 'group');
+}
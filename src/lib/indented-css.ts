@@ -0,0 +1,125 @@
+import { CSSContext, CSSMatch, TextRange } from '@emmetio/action-utils';
+import { TokenType } from '@emmetio/css-matcher';
+
+interface Line {
+    /** Range of line content, without indentation and trailing spaces */
+    range: TextRange;
+    /** Line indentation size */
+    indent: number;
+}
+
+interface Section {
+    indent: number;
+    match: CSSMatch;
+}
+
+/** Property name and separator in indented syntaxes: `color: red` */
+const reProperty = /^[\w$#{}-]+\s*:(?=\s|$)\s*/;
+
+/** Property name and whitespace separator in Stylus: `color red` */
+const reStylusProperty = /^[\w$#{}-]+\s+/;
+
+/**
+ * Returns CSS context for given location in indented stylesheet syntaxes like
+ * Sass or Stylus, where sections are defined by indentation instead of braces.
+ * Line is considered a section (selector) if next line is indented deeper than
+ * given one, otherwise it’s a property
+ * @param stylus Allow whitespace as property name and value separator
+ * @param embedded Range of given stylesheet code in original content, if it’s
+ * embedded into HTML
+ */
+export function getIndentedCSSContext(code: string, pos: number, stylus?: boolean, embedded?: TextRange): CSSContext {
+    const result: CSSContext = {
+        type: 'css',
+        ancestors: [],
+        current: null,
+        inline: false,
+        embedded
+    };
+
+    const lines = getLines(code);
+    const stack: Section[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const next = lines[i + 1];
+        const [start, end] = line.range;
+
+        if (start >= pos) {
+            // Line behind specified location, stop parsing
+            break;
+        }
+
+        while (stack.length && stack[stack.length - 1].indent >= line.indent) {
+            stack.pop();
+        }
+
+        const isSection = next ? next.indent > line.indent : false;
+
+        if (pos <= end) {
+            // Direct hit on line
+            if (isSection) {
+                result.current = createMatch(code, TokenType.Selector, start, end);
+            } else {
+                const text = code.slice(start, end);
+                const m = text.match(reProperty) || (stylus ? text.match(reStylusProperty) : null);
+                if (m && start + m[0].length < pos) {
+                    const nameEnd = start + m[0].replace(/[\s:]+$/, '').length;
+                    stack.push({
+                        indent: line.indent,
+                        match: createMatch(code, TokenType.PropertyName, start, nameEnd)
+                    });
+                    result.current = createMatch(code, TokenType.PropertyValue, start + m[0].length, end);
+                } else {
+                    result.current = createMatch(code, TokenType.PropertyName, start, end);
+                }
+            }
+
+            break;
+        }
+
+        if (isSection) {
+            stack.push({
+                indent: line.indent,
+                match: createMatch(code, TokenType.Selector, start, end)
+            });
+        }
+    }
+
+    result.ancestors = stack.map(item => item.match);
+    return result;
+}
+
+/**
+ * Returns list of non-empty lines of given code, excluding comments
+ */
+function getLines(code: string): Line[] {
+    const lines: Line[] = [];
+    const reLine = /([ \t]*)([^\r\n]*)(\r\n|\r|\n|$)/g;
+    let m: RegExpExecArray | null;
+
+    while (reLine.lastIndex < code.length && (m = reLine.exec(code))) {
+        const content = m[2].replace(/\s+$/, '');
+        const contentStart = m.index + m[1].length;
+        if (content && !/^(\/\/|\/\*|\*)/.test(content)) {
+            lines.push({
+                range: [contentStart, contentStart + content.length],
+                indent: m[1].replace(/\t/g, '    ').length
+            });
+        }
+
+        if (!m[0]) {
+            break;
+        }
+    }
+
+    return lines;
+}
+
+function createMatch(code: string, type: TokenType, start: number, end: number): CSSMatch {
+    return {
+        name: code.slice(start, end),
+        type,
+        range: [start, end]
+    };
+}
@@ -0,0 +1,547 @@
+import { TextRange } from '@emmetio/action-utils';
+import { last } from './utils';
+
+/**
+ * Type of node in indented markup syntaxes:
+ * – `element`: HTML element, like `ul.nav` or `%a(href="#")`
+ * – `text`: plain text line, like `| Hello` in Pug
+ * – `comment`: comment line with nested comment block
+ * – `code`: control statement or code line, like `if foo` or `- x = 1`
+ * – `filter`: filter or embedded engine with raw content, like `:css` or `css:`
+ */
+export type IndentedNodeType = 'element' | 'text' | 'comment' | 'code' | 'filter';
+
+export interface IndentedAttribute {
+    name: string;
+    /** Unquoted attribute value */
+    value?: string;
+    /** Range of attribute in source code */
+    range: TextRange;
+    /** Range of unquoted attribute value */
+    valueRange?: TextRange;
+}
+
+export interface IndentedNode {
+    type: IndentedNodeType;
+    /** Element name, filter name or statement keyword */
+    name: string;
+    /** Range of element name, if explicitly written */
+    nameRange?: TextRange;
+    attributes: IndentedAttribute[];
+    /** Range of node head, e.g. node line without nested content */
+    head: TextRange;
+    /** Range of node with all its nested content */
+    range: TextRange;
+    /** Range of nested content, if any */
+    inner?: TextRange;
+    /** Range of inline text after element head, like `Hello` in `p Hello` */
+    text?: TextRange;
+    /**
+     * Nested content is a raw text (text block, filter content or comment)
+     * rather than list of nodes
+     */
+    raw: boolean;
+    indent: number;
+    children: IndentedNode[];
+}
+
+export interface IndentedMarkupContext {
+    type: 'indented';
+    /** List of ancestor elements for given location */
+    ancestors: IndentedNode[];
+    /** Node with head directly under given location */
+    current: IndentedNode | null;
+    /** Node with raw content which contains given location */
+    raw: IndentedNode | null;
+    /** Given location is inside inline text of current element */
+    inlineText: boolean;
+}
+
+export interface IndentedSelectItemModel {
+    start: number;
+    end: number;
+    ranges: TextRange[];
+}
+
+const enum Chars {
+    Tab = 9,
+    LF = 10,
+    CR = 13,
+    Space = 32,
+}
+
+const pairs = {
+    '(': ')',
+    '{': '}',
+    '[': ']'
+};
+
+const reName = /[\w-]+/y;
+const reSlimAttribute = /[ \t]+([\w:@.-]+)=("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|[^\s]+)/y;
+const reAttribute = /(:?[\w@.-]+(?::[\w@.-]+)*|"[^"]*"|'[^']*')(?:[ \t]*(?:=>|=|:)[ \t]*("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|[^\s,)}\]]+))?/g;
+const rePugKeyword = /^(if|else|unless|each|for|while|case|when|default|block|mixin|include|extends|append|prepend|yield)\b/;
+
+/**
+ * Parses given source code of indented markup syntax (Pug, Slim or Haml) into
+ * a tree of nodes. Nesting is defined by line indentation
+ */
+export function parseIndentedMarkup(code: string, syntax: string): IndentedNode[] {
+    const root: IndentedNode[] = [];
+    const stack: IndentedNode[] = [];
+    let pos = 0;
+
+    while (pos < code.length) {
+        const lineEnd = eol(code, pos);
+        let start = pos;
+        while (start < lineEnd && isSpace(code.charCodeAt(start))) {
+            start++;
+        }
+
+        let end = lineEnd;
+        while (end > start && isSpace(code.charCodeAt(end - 1))) {
+            end--;
+        }
+
+        if (start === end) {
+            pos = nextLine(code, lineEnd);
+            continue;
+        }
+
+        const indent = code.slice(pos, start).replace(/\t/g, '    ').length;
+        while (stack.length && last(stack)!.indent >= indent) {
+            stack.pop();
+        }
+
+        const parent = last(stack);
+        if (parent && parent.raw) {
+            // Line is a part of raw content
+            extend(stack, start, end);
+            pos = nextLine(code, lineEnd);
+            continue;
+        }
+
+        const node = parseNode(code, start, end, indent, syntax);
+        extend(stack, node.head[0], node.head[1]);
+        (parent ? parent.children : root).push(node);
+        stack.push(node);
+        pos = nextLine(code, eol(code, node.head[1]));
+    }
+
+    return root;
+}
+
+/**
+ * Returns context of given location in indented markup source code
+ */
+export function getIndentedMarkupContext(code: string, pos: number, syntax: string): IndentedMarkupContext {
+    const result: IndentedMarkupContext = {
+        type: 'indented',
+        ancestors: [],
+        current: null,
+        raw: null,
+        inlineText: false
+    };
+
+    let nodes = parseIndentedMarkup(code, syntax);
+    while (nodes.length) {
+        const node = nodes.find(item => item.range[0] < pos && pos <= item.range[1]);
+        if (!node) {
+            break;
+        }
+
+        if (pos <= node.head[1]) {
+            result.current = node;
+            result.inlineText = !!node.text && pos > node.text[0];
+            break;
+        }
+
+        if (node.raw) {
+            result.raw = node;
+            break;
+        }
+
+        if (node.type === 'element') {
+            result.ancestors.push(node);
+        }
+
+        nodes = node.children;
+    }
+
+    return result;
+}
+
+/**
+ * Returns list of nodes for balancing for given location: nodes which contain
+ * location and, for inward balancing, first child nodes of innermost one
+ */
+export function balanceIndented(code: string, pos: number, syntax: string, inward?: boolean): IndentedNode[] {
+    const result: IndentedNode[] = [];
+    let nodes = parseIndentedMarkup(code, syntax);
+
+    while (nodes.length) {
+        const node = nodes.find(item => item.range[0] <= pos && pos <= item.range[1]);
+        if (!node) {
+            break;
+        }
+
+        result.push(node);
+        nodes = node.children;
+    }
+
+    if (inward) {
+        let node = last(result);
+        while (node && node.children.length) {
+            node = node.children[0];
+            result.push(node);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns model for selecting next or previous item: element name and
+ * attributes of element next to (or before) given location
+ */
+export function selectItemIndented(code: string, pos: number, syntax: string, isPrev?: boolean): IndentedSelectItemModel | undefined {
+    const elements: IndentedNode[] = [];
+    const collect = (nodes: IndentedNode[]) => {
+        for (const node of nodes) {
+            if (node.type === 'element') {
+                elements.push(node);
+            }
+            collect(node.children);
+        }
+    };
+    collect(parseIndentedMarkup(code, syntax));
+
+    const elem = isPrev
+        ? elements.filter(item => item.head[0] < pos).pop()
+        : elements.find(item => item.head[1] > pos);
+
+    if (elem) {
+        const ranges: TextRange[] = [];
+        if (elem.nameRange) {
+            pushRange(ranges, elem.nameRange);
+        }
+
+        for (const attr of elem.attributes) {
+            pushRange(ranges, attr.range);
+            if (attr.valueRange && attr.valueRange[0] !== attr.valueRange[1]) {
+                pushRange(ranges, attr.valueRange);
+                if (attr.name === 'class') {
+                    // Split class names into tokens
+                    const reToken = /\S+/g;
+                    let m: RegExpExecArray | null;
+                    while ((m = reToken.exec(attr.value!))) {
+                        const start = attr.valueRange[0] + m.index;
+                        pushRange(ranges, [start, start + m[0].length]);
+                    }
+                }
+            }
+        }
+
+        return { start: elem.head[0], end: elem.head[1], ranges };
+    }
+}
+
+/**
+ * Returns abbreviation context attributes of given element
+ */
+export function getAttributes(node: IndentedNode): { [name: string]: string } {
+    const attrs: { [name: string]: string } = {};
+    for (const attr of node.attributes) {
+        const value = attr.value || '';
+        attrs[attr.name] = attr.name === 'class' && attrs.class
+            ? `${attrs.class} ${value}`
+            : value;
+    }
+
+    return attrs;
+}
+
+/**
+ * Parses node from line content at `start:end` range
+ */
+function parseNode(code: string, start: number, end: number, indent: number, syntax: string): IndentedNode {
+    const text = code.slice(start, end);
+    const node: IndentedNode = {
+        type: 'text',
+        name: '',
+        attributes: [],
+        head: [start, end],
+        range: [start, end],
+        raw: true,
+        indent,
+        children: []
+    };
+
+    let m: RegExpMatchArray | null;
+
+    if (syntax === 'haml') {
+        if (/^(\/|-#)/.test(text)) {
+            node.type = 'comment';
+        } else if (/^(-|=|~|!=|&=)/.test(text)) {
+            setCode(node);
+        } else if ((m = text.match(/^:([\w-]+)/))) {
+            setFilter(node, m[1]);
+        } else if (/^[%.#]/.test(text) || /^[a-zA-Z]\S*$/.test(text)) {
+            // NB: a single word without prefix is a plain text in Haml,
+            // but most likely it’s an abbreviation user types
+            parseElement(node, code, syntax);
+        }
+    } else if (syntax === 'slim') {
+        if (text[0] === '/') {
+            node.type = 'comment';
+        } else if (/^[|'<]/.test(text) || /^doctype\b/.test(text)) {
+            node.type = 'text';
+        } else if (/^[-=]/.test(text)) {
+            setCode(node);
+        } else if ((m = text.match(/^([\w-]+):$/))) {
+            setFilter(node, m[1]);
+        } else {
+            parseElement(node, code, syntax);
+        }
+    } else {
+        // Pug
+        if (text.startsWith('//')) {
+            node.type = 'comment';
+        } else if (/^[|<]/.test(text) || /^doctype\b/.test(text)) {
+            node.type = 'text';
+        } else if ((m = text.match(rePugKeyword))) {
+            setCode(node, m[1]);
+        } else if (/^(-|=|!=|\+)/.test(text)) {
+            setCode(node);
+            // Unbuffered code block: `-` with nested code lines
+            node.raw = text === '-';
+        } else if ((m = text.match(/^:([\w-]+)/))) {
+            setFilter(node, m[1]);
+        } else {
+            parseElement(node, code, syntax);
+        }
+    }
+
+    return node;
+}
+
+/**
+ * Parses element head of given node: name, shorthand classes and ID, attributes.
+ * Element head may span multiple lines if it contains attribute list
+ */
+function parseElement(node: IndentedNode, code: string, syntax: string) {
+    let pos = node.head[0];
+    let lineEnd = node.head[1];
+
+    node.type = 'element';
+    node.raw = false;
+
+    if (syntax === 'haml' && code[pos] === '%') {
+        pos++;
+    }
+
+    const name = consume(reName, code, pos);
+    if (name) {
+        node.name = name;
+        node.nameRange = [pos, pos + name.length];
+        pos += name.length;
+    } else {
+        node.name = 'div';
+    }
+
+    while (code[pos] === '.' || code[pos] === '#') {
+        const value = consume(reName, code, pos + 1);
+        if (!value) {
+            break;
+        }
+
+        node.attributes.push({
+            name: code[pos] === '.' ? 'class' : 'id',
+            value,
+            range: [pos + 1, pos + 1 + value.length],
+            valueRange: [pos + 1, pos + 1 + value.length]
+        });
+        pos += value.length + 1;
+    }
+
+    // Attribute lists
+    while (code[pos] in pairs && (code[pos] === '(' || !isPug(syntax))) {
+        const listEnd = findClosing(code, pos);
+        if (listEnd === -1) {
+            parseAttributes(node, code, pos + 1, lineEnd);
+            pos = lineEnd;
+            break;
+        }
+
+        parseAttributes(node, code, pos + 1, listEnd - 1);
+        pos = listEnd;
+        if (pos > lineEnd) {
+            // Attribute list spans multiple lines
+            lineEnd = eol(code, pos);
+            while (lineEnd > pos && isSpace(code.charCodeAt(lineEnd - 1))) {
+                lineEnd--;
+            }
+        }
+    }
+
+    if (syntax === 'slim') {
+        let m: RegExpExecArray | null;
+        reSlimAttribute.lastIndex = pos;
+        while (pos < lineEnd && (m = reSlimAttribute.exec(code))) {
+            pos = reSlimAttribute.lastIndex;
+            const valueStart = pos - m[2].length;
+            node.attributes.push(createAttribute(m[1], m[2], [valueStart - m[1].length - 1, pos], valueStart));
+        }
+    }
+
+    if (isPug(syntax)) {
+        // Text block: `p.` or `script(src="a.js").`
+        node.raw = code[pos] === '.' && pos + 1 === lineEnd;
+    }
+
+    if (isSpace(code.charCodeAt(pos))) {
+        // Inline text: `p Hello world`
+        let textStart = pos;
+        while (textStart < lineEnd && isSpace(code.charCodeAt(textStart))) {
+            textStart++;
+        }
+
+        if (textStart < lineEnd) {
+            node.text = [textStart, lineEnd];
+        }
+    }
+
+    node.head = [node.head[0], lineEnd];
+    node.range = [node.head[0], lineEnd];
+}
+
+/**
+ * Parses attributes in `start:end` range of given code
+ */
+function parseAttributes(node: IndentedNode, code: string, start: number, end: number) {
+    const src = code.slice(start, end);
+    let m: RegExpExecArray | null;
+
+    reAttribute.lastIndex = 0;
+    while ((m = reAttribute.exec(src))) {
+        const name = m[1].replace(/^:/, '').replace(/^(["'])(.*)\1$/, '$2');
+        const attrStart = start + m.index;
+        const attrEnd = attrStart + m[0].length;
+        node.attributes.push(m[2] != null
+            ? createAttribute(name, m[2], [attrStart, attrEnd], attrEnd - m[2].length)
+            : { name, range: [attrStart, attrEnd] });
+    }
+}
+
+function createAttribute(name: string, rawValue: string, range: TextRange, valueStart: number): IndentedAttribute {
+    let value = rawValue;
+    let valueRange: TextRange = [valueStart, valueStart + rawValue.length];
+    const quote = rawValue[0];
+    if ((quote === '"' || quote === '\'') && rawValue.length > 1 && rawValue[rawValue.length - 1] === quote) {
+        value = rawValue.slice(1, -1);
+        valueRange = [valueStart + 1, valueStart + rawValue.length - 1];
+    }
+
+    return { name, value, range, valueRange };
+}
+
+function setCode(node: IndentedNode, name = '') {
+    node.type = 'code';
+    node.name = name;
+    node.raw = false;
+}
+
+function setFilter(node: IndentedNode, name: string) {
+    node.type = 'filter';
+    node.name = name;
+}
+
+/**
+ * Extends ranges of given nodes with nested content at `start:end` range
+ */
+function extend(nodes: IndentedNode[], start: number, end: number) {
+    for (const node of nodes) {
+        node.range[1] = end;
+        node.inner = node.inner ? [node.inner[0], end] : [start, end];
+    }
+}
+
+/**
+ * Finds location right after closing bracket for bracket at given `pos`.
+ * Returns `-1` if bracket is not closed
+ */
+function findClosing(code: string, pos: number): number {
+    const stack: string[] = [];
+    let quote = '';
+
+    for (let i = pos; i < code.length; i++) {
+        const ch = code[i];
+        if (quote) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === quote) {
+                quote = '';
+            }
+        } else if (ch === '"' || ch === '\'' || ch === '`') {
+            quote = ch;
+        } else if (ch in pairs) {
+            stack.push(pairs[ch]);
+        } else if (ch === last(stack)) {
+            stack.pop();
+            if (!stack.length) {
+                return i + 1;
+            }
+        }
+    }
+
+    return -1;
+}
+
+function consume(re: RegExp, code: string, pos: number): string | undefined {
+    re.lastIndex = pos;
+    const m = re.exec(code);
+    return m ? m[0] : undefined;
+}
+
+function pushRange(ranges: TextRange[], range: TextRange) {
+    const prev = last(ranges);
+    if (!prev || prev[0] !== range[0] || prev[1] !== range[1]) {
+        ranges.push(range);
+    }
+}
+
+/**
+ * Returns location of line end for given location
+ */
+function eol(code: string, pos: number): number {
+    while (pos < code.length) {
+        const ch = code.charCodeAt(pos);
+        if (ch === Chars.LF || ch === Chars.CR) {
+            break;
+        }
+        pos++;
+    }
+
+    return pos;
+}
+
+/**
+ * Returns location of next line start for given line end location
+ */
+function nextLine(code: string, pos: number): number {
+    if (code.charCodeAt(pos) === Chars.CR) {
+        pos++;
+    }
+    if (code.charCodeAt(pos) === Chars.LF) {
+        pos++;
+    }
+
+    return pos;
+}
+
+function isPug(syntax: string): boolean {
+    return syntax === 'pug' || syntax === 'jade';
+}
+
+function isSpace(ch: number): boolean {
+    return ch === Chars.Space || ch === Chars.Tab;
+}
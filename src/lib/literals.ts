@@ -0,0 +1,348 @@
+import { resumeOffset, ScanCheckpoint } from './utils';
+
+interface ScanOptions {
+    /** Allow `//` line comments */
+    lineComments?: boolean;
+    /** Allow regular expression literals */
+    regexp?: boolean;
+    /** Allow backtick template literals */
+    template?: boolean;
+    /** Allow JSX elements in expressions */
+    jsx?: boolean;
+}
+
+interface ScanState {
+    code: string;
+    pos: number;
+    options: ScanOptions;
+    /** Last location at top level of code before `pos` */
+    checkpoint: number;
+    /** Scan result: set when scanner reaches `pos` location */
+    result?: boolean;
+}
+
+/** Characters after which slash starts a regular expression literal */
+const reRegExpPrefix = /[(,=:[!&|?{;+\-*%~^]/;
+/** Keywords after which slash starts a regular expression literal */
+const reRegExpKeyword = /\b(return|typeof|case|do|else|in|of|void|yield|await|delete|new|instanceof)$/;
+/** Stylesheet languages with `//` line comments */
+const reLineCommentLang = /\blang\s*=\s*["']?(scss|less|sass|stylus)\b/i;
+
+const scriptOptions: ScanOptions = { lineComments: true, regexp: true, template: true, jsx: true };
+
+/** Checkpoint of last script scan */
+let scriptCheckpoint: ScanCheckpoint | undefined;
+
+/**
+ * Check if given location is inside comment, string, template or regular
+ * expression literal of JavaScript code. JSX elements and text are not
+ * literals, but their attribute strings and expressions are scanned as well
+ */
+export function inScriptLiteral(code: string, pos: number): boolean {
+    const state: ScanState = {
+        code,
+        pos,
+        options: scriptOptions,
+        checkpoint: resumeOffset(scriptCheckpoint, code, pos)
+    };
+    scanExpression(state, state.checkpoint, false);
+    scriptCheckpoint = { code, offset: state.checkpoint };
+    return !!state.result;
+}
+
+/**
+ * Check if given location is inside comment or string of stylesheet code.
+ * Some stylesheet syntaxes like SCSS or LESS support `//` line comments
+ */
+export function inStylesheetLiteral(code: string, pos: number, lineComments?: boolean): boolean {
+    return inLiteral(code, pos, { lineComments });
+}
+
+/**
+ * Check if given location is inside HTML comment or inside comment or string
+ * of embedded `<style>` or `<script>` element
+ */
+export function inMarkupLiteral(code: string, pos: number): boolean {
+    const reOpen = /<!--|<(style|script)\b[^>]*>/gi;
+    let m: RegExpExecArray | null;
+
+    while ((m = reOpen.exec(code)) && m.index < pos) {
+        const start = m.index + m[0].length;
+        const close = m[1] ? `</${m[1].toLowerCase()}` : '-->';
+        let end = code.toLowerCase().indexOf(close, start);
+        if (end === -1) {
+            end = code.length;
+        }
+
+        if (pos <= end) {
+            if (!m[1]) {
+                // Inside HTML comment
+                return pos >= start;
+            }
+
+            if (pos < start) {
+                return false;
+            }
+
+            const content = code.slice(start, end);
+            return m[1].toLowerCase() === 'style'
+                ? inStylesheetLiteral(content, pos - start, reLineCommentLang.test(m[0]))
+                : inScriptLiteral(content, pos - start);
+        }
+
+        reOpen.lastIndex = end;
+    }
+
+    return false;
+}
+
+/**
+ * Scans given code up to `pos` and checks if it’s inside literal
+ */
+function inLiteral(code: string, pos: number, options: ScanOptions): boolean {
+    const state: ScanState = { code, pos, options, checkpoint: 0 };
+    scanExpression(state, 0, false);
+    return !!state.result;
+}
+
+/**
+ * Scans code in expression context from `start` location. If `nested` is set,
+ * scans until unmatched closing brace, e.g. JSX expression container.
+ * Returns location after scanned code or `-1` if scanner reached `pos`
+ */
+function scanExpression(state: ScanState, start: number, nested: boolean): number {
+    const { code, pos, options } = state;
+    let braces = 0;
+    let i = start;
+
+    while (i < pos) {
+        const ch = code[i];
+        const next = code[i + 1];
+        let end = -1;
+
+        if (!nested) {
+            state.checkpoint = i;
+        }
+
+        if (ch === '/' && next === '*') {
+            end = code.indexOf('*/', i + 2);
+            end = end !== -1 ? end + 2 : code.length;
+        } else if (ch === '/' && next === '/' && options.lineComments && code[i - 1] !== ':') {
+            // NB: skip `//` in stylesheet URLs like `url(http://...)`
+            end = lineEnd(code, i);
+            if (pos <= end) {
+                state.result = true;
+                return -1;
+            }
+        } else if (ch === '"' || ch === '\'' || (ch === '`' && options.template)) {
+            end = consumeQuoted(code, i, ch !== '`');
+        } else if (ch === '/' && options.regexp && isRegExpStart(code, i)) {
+            end = consumeRegExp(code, i);
+        } else if (ch === '<' && options.jsx && isJSXStart(code, i)) {
+            i = scanJSXElement(state, i);
+            if (i === -1) {
+                return i;
+            }
+            continue;
+        } else if (nested && ch === '{') {
+            braces++;
+        } else if (nested && ch === '}' && !braces--) {
+            return i + 1;
+        }
+
+        if (end !== -1) {
+            if (pos < end || end === code.length) {
+                // NB: unclosed literal spans till the end of code
+                state.result = true;
+                return -1;
+            }
+            i = end;
+        } else {
+            i++;
+        }
+    }
+
+    state.result = false;
+    return -1;
+}
+
+/**
+ * Scans JSX element with its contents from `start` location. Returns location
+ * after element or `-1` if scanner reached `pos`
+ */
+function scanJSXElement(state: ScanState, start: number): number {
+    const { code, pos } = state;
+    let depth = 0;
+    let i = start;
+
+    while (i < pos) {
+        if (code[i] === '<') {
+            const closing = code[i + 1] === '/';
+            const end = scanJSXTag(state, i);
+            if (end === -1) {
+                return end;
+            }
+
+            if (closing) {
+                depth--;
+            } else if (code[end - 2] !== '/') {
+                depth++;
+            }
+
+            i = end;
+            if (depth <= 0) {
+                return i;
+            }
+        } else if (code[i] === '{') {
+            i = scanExpression(state, i + 1, true);
+            if (i === -1) {
+                return i;
+            }
+        } else {
+            // JSX text
+            i++;
+        }
+    }
+
+    state.result = false;
+    return -1;
+}
+
+/**
+ * Scans JSX tag from `start` location. Returns location after tag or `-1`
+ * if scanner reached `pos`
+ */
+function scanJSXTag(state: ScanState, start: number): number {
+    const { code, pos } = state;
+    let i = start + 1;
+
+    while (i < pos) {
+        const ch = code[i];
+        if (ch === '>') {
+            return i + 1;
+        }
+
+        if (ch === '"' || ch === '\'') {
+            // NB: JSX attribute strings are multi-line and have no escapes
+            const end = code.indexOf(ch, i + 1);
+            if (end === -1 || pos <= end) {
+                state.result = true;
+                return -1;
+            }
+            i = end + 1;
+        } else if (ch === '{') {
+            i = scanExpression(state, i + 1, true);
+            if (i === -1) {
+                return i;
+            }
+        } else {
+            i++;
+        }
+    }
+
+    state.result = false;
+    return -1;
+}
+
+/**
+ * Consumes quoted string starting at `start` and returns location after it.
+ * Single-line strings are terminated at line end
+ */
+function consumeQuoted(code: string, start: number, singleLine: boolean): number {
+    const quote = code[start];
+    let i = start + 1;
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === '\\') {
+            i += 2;
+        } else if (ch === quote) {
+            return i + 1;
+        } else if (singleLine && (ch === '\n' || ch === '\r')) {
+            return i;
+        } else {
+            i++;
+        }
+    }
+
+    return code.length;
+}
+
+/**
+ * Consumes regular expression literal starting at `start` and returns
+ * location after it
+ */
+function consumeRegExp(code: string, start: number): number {
+    let i = start + 1;
+    let inClass = false;
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === '\\') {
+            i += 2;
+            continue;
+        }
+
+        if (ch === '\n' || ch === '\r') {
+            return i;
+        }
+
+        if (ch === '[') {
+            inClass = true;
+        } else if (ch === ']') {
+            inClass = false;
+        } else if (ch === '/' && !inClass) {
+            i++;
+            while (i < code.length && /\w/.test(code[i])) {
+                i++;
+            }
+            return i;
+        }
+
+        i++;
+    }
+
+    return code.length;
+}
+
+/**
+ * Check if slash at given location starts regular expression literal rather
+ * than division operator or JSX closing tag
+ */
+function isRegExpStart(code: string, pos: number): boolean {
+    let i = pos - 1;
+    while (i >= 0 && /\s/.test(code[i])) {
+        i--;
+    }
+
+    return i < 0
+        || reRegExpPrefix.test(code[i])
+        || reRegExpKeyword.test(code.slice(Math.max(0, i - 10), i + 1));
+}
+
+/**
+ * Check if `<` at given location starts JSX element rather than comparison
+ * operator
+ */
+function isJSXStart(code: string, pos: number): boolean {
+    const next = code[pos + 1];
+    if (!next || !/[a-zA-Z_$>]/.test(next)) {
+        return false;
+    }
+
+    let i = pos - 1;
+    while (i >= 0 && /\s/.test(code[i])) {
+        i--;
+    }
+
+    return i < 0
+        || code[i] === '>' && code[i - 1] === '='
+        || reRegExpPrefix.test(code[i])
+        || reRegExpKeyword.test(code.slice(Math.max(0, i - 10), i + 1));
+}
+
+function lineEnd(code: string, pos: number): number {
+    while (pos < code.length && code[pos] !== '\n' && code[pos] !== '\r') {
+        pos++;
+    }
+
+    return pos;
+}
@@ -1,10 +1,15 @@
 import { Options } from 'emmet';
-import getEmmetConfig from './config';
-import { isHTML, docSyntax } from './syntax';
+import getEmmetConfig, { getSyntaxOverride } from './config';
+import { isHTML, isJSX, docSyntax, getSyntaxType } from './syntax';
+import { getVSCodeOptions } from './vscode';
 
-export default function getOutputOptions(editor: TextEditor, pos = editor.selectedRange.start, inline?: boolean): Partial<Options> {
-    const syntax = docSyntax(editor);
-    const config = getEmmetConfig();
+/**
+ * Returns Emmet output options for given location in editor.
+ * @param syntax Syntax of abbreviation at given location. Might differ from
+ * document syntax in embedded blocks like `<style lang="scss">`
+ */
+export default function getOutputOptions(editor: TextEditor, pos = editor.selectedRange.start, inline?: boolean, syntax = docSyntax(editor)): Partial<Options> {
+    const config = getEmmetConfig(syntax);
     const lineRange = editor.getLineRangeForRange(new Range(pos, pos));
     const line = editor.getTextInRange(lineRange);
     const indent = line.match(/^\s+/);
@@ -17,12 +22,12 @@ export default function getOutputOptions(editor: TextEditor, pos = editor.select
         'output.attributeQuotes': config.attributeQuotes
     };
 
-    if (syntax === 'html') {
+    if (syntax === 'html' || getSyntaxOverride('emmet.code-style', syntax) != null) {
         opt['output.selfClosingStyle'] = config.markupStyle;
         opt['output.compactBoolean'] = config.markupStyle === 'html';
     }
 
-    if (isHTML(syntax)) {
+    if (isHTML(syntax) || isHTML(docSyntax(editor))) {
         if (config.comments) {
             opt['comment.enabled'] = true;
             if (config.commentsTemplate) {
@@ -34,6 +39,20 @@ export default function getOutputOptions(editor: TextEditor, pos = editor.select
         opt['stylesheet.shortHex'] = config.shortHex;
     }
 
+    if (isJSX(syntax)) {
+        // JSX requires all elements to be closed: output `<img />` and `<Foo />`
+        // for self-closing elements and components
+        opt['jsx.enabled'] = true;
+        opt['output.selfClosingStyle'] = config.markupStyle === 'xml' ? 'xml' : 'xhtml';
+        opt['output.compactBoolean'] = true;
+    }
+
+    // Options from VS Code settings are more specific than plugin preferences
+    Object.assign(opt, getVSCodeOptions(syntax, getSyntaxType(syntax)));
+    if (inline) {
+        opt['output.format'] = false;
+    }
+
     return opt;
 }
 
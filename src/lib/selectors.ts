@@ -0,0 +1,296 @@
+import { scan, TokenType } from '@emmetio/css-matcher';
+import { getContent, isURL, readTextFile, resolveFilePath } from './utils';
+
+export interface Selectors {
+    /** Class names, without leading dot */
+    classes: string[];
+    /** Element IDs, without leading hash */
+    ids: string[];
+}
+
+/** Stylesheet files to index in workspace */
+const reStylesheetFile = /\.(css|scss|less)$/i;
+
+/** Class or ID in selector. NB: skips numbers like `.5em` and `#{$var}` interpolations */
+const reSelectorName = /([.#])(-?[_a-zA-Z\u00a0-\uffff][\w\-\u00a0-\uffff]*)/g;
+
+/** Directories which are not indexed in workspace */
+const ignoredDirs = new Set(['node_modules', 'bower_components', 'vendor']);
+
+/** Max amount of workspace stylesheets to index */
+const maxFiles = 1000;
+
+/** Max time of single indexing step, ms */
+const indexStepTime = 10;
+
+/** Selectors of workspace stylesheets, keyed by absolute file path */
+const workspaceIndex = new Map<string, Selectors>();
+
+/**
+ * Selectors of stylesheets linked from documents, keyed by absolute file path.
+ * Stored separately from workspace index since these files are available
+ * for linking documents only
+ */
+const linkedIndex = new Map<string, Selectors>();
+
+/** Merged selectors of workspace index, rebuilt when index is updated */
+let workspaceSelectors: Selectors | undefined;
+
+/** Timer of pending workspace indexing step */
+let indexTimer: number | undefined;
+
+/**
+ * Returns class names and IDs available in given editor: defined in document
+ * `<style>` elements, linked stylesheets and workspace stylesheet files.
+ * Workspace index is built in background so it might be incomplete yet
+ */
+export function getSelectors(editor: TextEditor): Selectors {
+    const code = getContent(editor);
+    const items = [parseStyleElements(code)];
+
+    for (const filePath of getLinkedStylesheets(editor, code)) {
+        const selectors = getLinkedSelectors(filePath);
+        if (selectors) {
+            items.push(selectors);
+        }
+    }
+
+    if (!workspaceSelectors) {
+        workspaceSelectors = mergeSelectors(Array.from(workspaceIndex.values()));
+    }
+    items.push(workspaceSelectors);
+
+    return mergeSelectors(items);
+}
+
+/**
+ * Collects class names and IDs from selectors of given stylesheet source
+ */
+export function parseSelectors(code: string): Selectors {
+    const classes = new Set<string>();
+    const ids = new Set<string>();
+
+    scan(code, (type, start, end) => {
+        if (type === TokenType.Selector && code[start] !== '@') {
+            // Attribute selectors may contain dots and hashes in values
+            const selector = code.slice(start, end).replace(/\[[^\]]*\]/g, '');
+            let m: RegExpExecArray | null;
+            reSelectorName.lastIndex = 0;
+            while ((m = reSelectorName.exec(selector))) {
+                (m[1] === '.' ? classes : ids).add(m[2]);
+            }
+        }
+    });
+
+    return {
+        classes: Array.from(classes),
+        ids: Array.from(ids)
+    };
+}
+
+/**
+ * Collects class names and IDs from `<style>` elements of given markup source
+ */
+export function parseStyleElements(code: string): Selectors {
+    const reStyle = /<style\b[^>]*>([\s\S]*?)(?:<\/style>|$)/gi;
+    const items: Selectors[] = [];
+    let m: RegExpExecArray | null;
+
+    while ((m = reStyle.exec(code))) {
+        items.push(parseSelectors(m[1]));
+    }
+
+    return mergeSelectors(items);
+}
+
+/**
+ * Returns locations of stylesheets linked from given markup source
+ * with `<link rel="stylesheet">` elements
+ */
+export function getStylesheetLinks(code: string): string[] {
+    const result: string[] = [];
+    const reLink = /<link\b[^>]*>/gi;
+    let m: RegExpExecArray | null;
+
+    while ((m = reLink.exec(code))) {
+        const rel = attrValue(m[0], 'rel');
+        const href = attrValue(m[0], 'href');
+        if (href && rel && /\bstylesheet\b/i.test(rel)) {
+            result.push(href);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Indexes workspace stylesheets in background and starts watching for their
+ * changes to keep selectors index up-to-date
+ */
+export default function watchStylesheets(): Disposable {
+    const disposable = new CompositeDisposable();
+    indexWorkspace();
+    disposable.add(nova.fs.watch(null, filePath => {
+        if (reStylesheetFile.test(filePath)) {
+            linkedIndex.delete(filePath);
+            if (workspaceIndex.has(filePath) || (!indexTimer && isIndexable(filePath))) {
+                updateWorkspaceFile(filePath);
+            }
+        } else if (nova.fs.stat(filePath)?.isDirectory() || hasIndexedFiles(filePath)) {
+            // Added or removed directory: re-index workspace
+            indexWorkspace();
+        }
+    }));
+    disposable.add({
+        dispose() {
+            cancelIndexing();
+            clearWorkspaceIndex();
+            linkedIndex.clear();
+        }
+    });
+
+    return disposable;
+}
+
+/**
+ * Returns absolute paths of local stylesheets linked from given editor
+ */
+function getLinkedStylesheets(editor: TextEditor, code: string): string[] {
+    return getStylesheetLinks(code)
+        .map(href => href.replace(/[?#].*$/, ''))
+        .filter(href => href && !isURL(href) && !href.startsWith('//'))
+        .map(href => resolveFilePath(editor, href))
+        .filter(Boolean) as string[];
+}
+
+/**
+ * Returns selectors of given linked stylesheet file, reads it if file is not
+ * indexed yet
+ */
+function getLinkedSelectors(filePath: string): Selectors | undefined {
+    const selectors = workspaceIndex.get(filePath) || linkedIndex.get(filePath);
+    if (selectors) {
+        return selectors;
+    }
+
+    const loaded = loadSelectors(filePath);
+    if (loaded) {
+        linkedIndex.set(filePath, loaded);
+    }
+
+    return loaded;
+}
+
+/**
+ * Rebuilds selectors index of workspace stylesheets. Workspace is traversed
+ * in small time-limited steps to not block editor
+ */
+function indexWorkspace() {
+    cancelIndexing();
+    clearWorkspaceIndex();
+
+    const queue = nova.workspace.path ? [nova.workspace.path] : [];
+    let files = 0;
+
+    const step = () => {
+        const until = Date.now() + indexStepTime;
+        while (queue.length && files < maxFiles && Date.now() < until) {
+            const filePath = queue.shift()!;
+            const stats = nova.fs.stat(filePath);
+            if (stats?.isDirectory() && !stats.isSymbolicLink()) {
+                queue.push(...listDir(filePath));
+            } else if (stats?.isFile() && reStylesheetFile.test(filePath)) {
+                updateWorkspaceFile(filePath);
+                files++;
+            }
+        }
+
+        indexTimer = queue.length && files < maxFiles
+            ? setTimeout(step, 0)
+            : undefined;
+    };
+
+    indexTimer = setTimeout(step, 0);
+}
+
+function cancelIndexing() {
+    if (indexTimer) {
+        clearTimeout(indexTimer);
+        indexTimer = undefined;
+    }
+}
+
+/**
+ * Returns paths of given directory entries which should be indexed
+ */
+function listDir(dir: string): string[] {
+    try {
+        return nova.fs.listdir(dir)
+            .map(name => nova.path.join(dir, name))
+            .filter(isIndexable);
+    } catch (err) {
+        return [];
+    }
+}
+
+/**
+ * Check if given workspace file should be indexed
+ */
+function isIndexable(filePath: string): boolean {
+    const root = nova.workspace.path;
+    return !!root && filePath.startsWith(root) && !filePath.slice(root.length)
+        .split('/')
+        .some(name => name[0] === '.' || ignoredDirs.has(name));
+}
+
+function updateWorkspaceFile(filePath: string) {
+    const selectors = loadSelectors(filePath);
+    if (selectors) {
+        workspaceIndex.set(filePath, selectors);
+    } else {
+        workspaceIndex.delete(filePath);
+    }
+    workspaceSelectors = undefined;
+}
+
+function clearWorkspaceIndex() {
+    workspaceIndex.clear();
+    workspaceSelectors = undefined;
+}
+
+function loadSelectors(filePath: string): Selectors | undefined {
+    const code = readTextFile(filePath);
+    if (code != null) {
+        return parseSelectors(code);
+    }
+}
+
+/**
+ * Check if workspace index contains files from given directory
+ */
+function hasIndexedFiles(dir: string): boolean {
+    const prefix = dir.replace(/\/*$/, '/');
+    return Array.from(workspaceIndex.keys()).some(filePath => filePath.startsWith(prefix));
+}
+
+function mergeSelectors(items: Selectors[]): Selectors {
+    const classes = new Set<string>();
+    const ids = new Set<string>();
+    for (const item of items) {
+        item.classes.forEach(name => classes.add(name));
+        item.ids.forEach(name => ids.add(name));
+    }
+
+    return {
+        classes: Array.from(classes),
+        ids: Array.from(ids)
+    };
+}
+
+function attrValue(tag: string, name: string): string | undefined {
+    const re = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i');
+    const m = tag.match(re);
+    if (m) {
+        return m[1] ?? m[2] ?? m[3];
+    }
+}
@@ -0,0 +1,111 @@
+import { TextRange } from '@emmetio/action-utils';
+
+/** Open and close tokens of server code region */
+type RegionTokens = [string, string];
+
+/**
+ * Server code regions of HTML-based template syntaxes. Order matters: longer
+ * open tokens must go first
+ */
+const serverRegions: { [syntax: string]: RegionTokens[] } = {
+    php: [['<?', '?>']],
+    'html+erb': [['<%', '%>']],
+    blade: [['{{--', '--}}'], ['{!!', '!!}'], ['{{', '}}'], ['@php', '@endphp']]
+};
+
+/**
+ * Check if given syntax may contain server code regions
+ */
+export function hasServerCode(syntax: string): boolean {
+    return syntax in serverRegions;
+}
+
+/**
+ * Returns ranges of server code regions in given code, like `<?php ... ?>` in PHP,
+ * `<%= ... %>` in ERB or `{{ ... }}` in Blade. Unclosed region spans till
+ * the end of code
+ */
+export function getServerRegions(code: string, syntax: string): TextRange[] {
+    const tokens = serverRegions[syntax];
+    const result: TextRange[] = [];
+    if (!tokens) {
+        return result;
+    }
+
+    let pos = 0;
+    while (pos < code.length) {
+        const region = findRegion(code, pos, tokens);
+        if (!region) {
+            break;
+        }
+
+        result.push(region);
+        pos = region[1];
+    }
+
+    return result;
+}
+
+/**
+ * Check if given location is inside server code region
+ */
+export function inServerCode(code: string, pos: number, syntax: string): boolean {
+    return getServerRegions(code, syntax).some(r => r[0] < pos && pos < r[1]);
+}
+
+/**
+ * Returns copy of given code where server code regions are replaced with
+ * spaces so that code can be parsed as HTML with locations preserved
+ */
+export function maskServerCode(code: string, syntax: string): string {
+    const regions = getServerRegions(code, syntax);
+    if (!regions.length) {
+        return code;
+    }
+
+    let result = '';
+    let offset = 0;
+    for (const [start, end] of regions) {
+        result += code.slice(offset, start) + code.slice(start, end).replace(/[^\r\n]/g, ' ');
+        offset = end;
+    }
+
+    return result + code.slice(offset);
+}
+
+/**
+ * Finds closest server code region in given code, starting at `pos`
+ */
+function findRegion(code: string, pos: number, tokens: RegionTokens[]): TextRange | undefined {
+    let start = -1;
+    let match: RegionTokens | undefined;
+
+    for (const item of tokens) {
+        const ix = findOpenToken(code, pos, item[0]);
+        if (ix !== -1 && (start === -1 || ix < start)) {
+            start = ix;
+            match = item;
+        }
+    }
+
+    if (match) {
+        const [open, close] = match;
+        const end = code.indexOf(close, start + open.length);
+        return [start, end !== -1 ? end + close.length : code.length];
+    }
+}
+
+/**
+ * Finds location of given open token in code. Directive tokens like `@php`
+ * must be followed by word bound
+ */
+function findOpenToken(code: string, pos: number, token: string): number {
+    let ix = code.indexOf(token, pos);
+    if (token[0] === '@') {
+        while (ix !== -1 && /[\w(]/.test(code.charAt(ix + token.length))) {
+            ix = code.indexOf(token, ix + token.length);
+        }
+    }
+
+    return ix;
+}
@@ -0,0 +1,286 @@
+import { GlobalConfig, Options, SyntaxType, markupAbbreviation } from 'emmet';
+import { isStylesheetSyntax, isJSX } from './syntax';
+import { readTextFile, isObject } from './utils';
+
+export interface SnippetsError {
+    message: string;
+    /** Character location of error in snippets file */
+    pos: number;
+}
+
+export interface ParsedSnippets {
+    config: GlobalConfig;
+    errors: SnippetsError[];
+}
+
+type SectionKey = 'snippets' | 'variables' | 'options';
+
+/** Path of workspace snippets file, relative to workspace root */
+export const snippetsFile = '.emmet/snippets.json';
+
+const sectionKeys: SectionKey[] = ['snippets', 'variables', 'options'];
+let snippetsConfig: GlobalConfig | undefined;
+let issues: IssueCollection | undefined;
+
+/**
+ * Returns Emmet config loaded from workspace snippets file, if any
+ */
+export function getSnippetsConfig(): GlobalConfig | undefined {
+    return snippetsConfig;
+}
+
+/**
+ * Loads Emmet config from workspace snippets file and reports its errors
+ * as issues of this file
+ */
+export function loadSnippets(): GlobalConfig | undefined {
+    snippetsConfig = undefined;
+    issues?.clear();
+
+    const filePath = getSnippetsPath();
+    const text = filePath ? readTextFile(filePath) : undefined;
+    if (!filePath || text == null) {
+        return;
+    }
+
+    const { config, errors } = parseSnippets(text);
+    snippetsConfig = config;
+
+    if (errors.length) {
+        if (!issues) {
+            issues = new IssueCollection('Emmet');
+        }
+
+        issues.set(`file://${filePath}`, errors.map(err => {
+            const issue = new Issue();
+            issue.code = 'EmmetSnippetsError';
+            issue.severity = IssueSeverity.Error;
+            issue.message = err.message;
+            issue.textRange = new Range(err.pos, Math.min(err.pos + 1, text.length));
+            return issue;
+        }));
+    }
+
+    return snippetsConfig;
+}
+
+/**
+ * Starts watching for workspace snippets file: re-loads it on every change and
+ * invokes given `callback`
+ */
+export default function watchSnippets(callback: () => void): Disposable {
+    const disposable = new CompositeDisposable();
+    loadSnippets();
+    disposable.add(nova.fs.watch(snippetsFile, () => {
+        loadSnippets();
+        callback();
+    }));
+    disposable.add({
+        dispose() {
+            snippetsConfig = undefined;
+            issues?.dispose();
+            issues = undefined;
+        }
+    });
+
+    return disposable;
+}
+
+/**
+ * Parses contents of snippets file into Emmet global config. The snippets file
+ * has the same structure as Emmet’s `GlobalConfig`: keys are syntax names
+ * (or `markup` and `stylesheet` for all syntaxes of given type) and values are
+ * objects with `snippets`, `variables` and `options` keys. Top-level `variables`
+ * key is applied to all syntaxes.
+ */
+export function parseSnippets(text: string): ParsedSnippets {
+    const config: GlobalConfig = {};
+    const errors: SnippetsError[] = [];
+    let data: unknown;
+
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        const m = String(err && err.message).match(/at position (\d+)/);
+        errors.push({
+            message: `Invalid JSON: ${err.message}`,
+            pos: m ? Number(m[1]) : 0
+        });
+        return { config, errors };
+    }
+
+    if (!isObject(data)) {
+        errors.push({ message: 'Snippets file must contain an object', pos: 0 });
+        return { config, errors };
+    }
+
+    for (const syntax of Object.keys(data)) {
+        const section = data[syntax];
+        const sectionPos = keyPos(text, syntax);
+
+        if (syntax === 'variables') {
+            const variables = validateMap(text, section, sectionPos, syntax, errors);
+            if (variables) {
+                for (const type of ['markup', 'stylesheet']) {
+                    config[type] = {
+                        ...config[type],
+                        variables: { ...variables, ...config[type]?.variables }
+                    };
+                }
+            }
+            continue;
+        }
+
+        if (!isObject(section)) {
+            errors.push({
+                message: `Config for “${syntax}” syntax must be an object`,
+                pos: sectionPos
+            });
+            continue;
+        }
+
+        const type: SyntaxType = section.type === 'stylesheet' || section.type === 'markup'
+            ? section.type
+            : getSectionType(syntax);
+
+        for (const key of sectionKeys) {
+            if (section[key] == null) {
+                continue;
+            }
+
+            if (key === 'options') {
+                const options = validateOptions(section[key], keyPos(text, key, sectionPos), errors);
+                if (options) {
+                    config[syntax] = {
+                        ...config[syntax],
+                        options: { ...config[syntax]?.options, ...options }
+                    };
+                }
+                continue;
+            }
+
+            const value = validateMap(text, section[key], keyPos(text, key, sectionPos), key, errors);
+            if (!value) {
+                continue;
+            }
+
+            let result = { ...config[syntax]?.[key] };
+            if (key === 'snippets') {
+                const snippets = normalizeSnippets(value);
+                for (const name of Object.keys(snippets)) {
+                    const err = validateSnippet(snippets[name], type, syntax);
+                    if (err) {
+                        errors.push({
+                            message: `Invalid snippet “${name}”: ${err}`,
+                            pos: keyPos(text, name, sectionPos)
+                        });
+                    } else {
+                        result[name] = snippets[name];
+                    }
+                }
+            } else {
+                result = { ...result, ...value };
+            }
+
+            config[syntax] = {
+                ...config[syntax],
+                [key]: result
+            };
+        }
+    }
+
+    return { config, errors };
+}
+
+/**
+ * Returns absolute path to workspace snippets file
+ */
+function getSnippetsPath(): string | undefined {
+    const { path } = nova.workspace;
+    if (path) {
+        return nova.path.join(path, snippetsFile);
+    }
+}
+
+function getSectionType(syntax: string): SyntaxType {
+    return syntax === 'stylesheet' || isStylesheetSyntax(syntax) ? 'stylesheet' : 'markup';
+}
+
+/**
+ * Splits aliased snippet names like `a|link` into separate snippets
+ */
+function normalizeSnippets(snippets: { [name: string]: string }): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+    for (const key of Object.keys(snippets)) {
+        for (const name of key.split('|')) {
+            result[name] = snippets[key];
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Validates given snippet value, returns error message if snippet is invalid
+ */
+function validateSnippet(value: string, type: SyntaxType, syntax: string): string | undefined {
+    if (type === 'markup') {
+        try {
+            markupAbbreviation(value, { jsx: isJSX(syntax) });
+        } catch (err) {
+            return err.message;
+        }
+    }
+}
+
+/**
+ * Validates given key-value map: reports error if it’s not an object and
+ * drops non-string values from result
+ */
+function validateMap(text: string, value: unknown, pos: number, name: string, errors: SnippetsError[]): { [key: string]: string } | undefined {
+    if (!validateObject(value, pos, name, errors)) {
+        return;
+    }
+
+    const result: { [key: string]: string } = {};
+    for (const key of Object.keys(value)) {
+        const item = value[key];
+        if (typeof item === 'string') {
+            result[key] = item;
+        } else {
+            errors.push({
+                message: `Value of “${key}” must be a string`,
+                pos: keyPos(text, key, pos)
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Validates given Emmet options map: reports error if it’s not an object.
+ * Option values are passed to Emmet as is
+ */
+function validateOptions(value: unknown, pos: number, errors: SnippetsError[]): Partial<Options> | undefined {
+    if (validateObject(value, pos, 'options', errors)) {
+        return value as Partial<Options>;
+    }
+}
+
+function validateObject(value: unknown, pos: number, name: string, errors: SnippetsError[]): value is { [key: string]: unknown } {
+    if (!isObject(value)) {
+        errors.push({ message: `“${name}” must be an object`, pos });
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Returns approximate location of given object key in JSON source
+ */
+function keyPos(text: string, key: string, from = 0): number {
+    const pos = text.indexOf(JSON.stringify(key), from);
+    return pos !== -1 ? pos : from;
+}
@@ -0,0 +1,127 @@
+import { parseStylesheet, stringifyStylesheet, Config, StylesheetAbbreviation } from 'emmet';
+import { TextRange } from '@emmetio/action-utils';
+
+/** Start of JSX style object: `style={{` */
+const reStyleObject = /\bstyle\s*=\s*\{\s*\{/g;
+
+/** Max amount of characters before location to look for style object start */
+const styleObjectLookbehind = 2000;
+
+const quotes = ['"', '\'', '`'];
+const openBrackets = ['{', '[', '('];
+const closeBrackets = ['}', ']', ')'];
+
+/**
+ * Returns range of JSX style object content, e.g. `style={{ ... }}`, if given
+ * location is at property name position of this object
+ */
+export function getStyleObject(code: string, pos: number): TextRange | undefined {
+    let start = -1;
+    let m: RegExpExecArray | null;
+
+    reStyleObject.lastIndex = Math.max(0, pos - styleObjectLookbehind);
+    while ((m = reStyleObject.exec(code)) && m.index + m[0].length <= pos) {
+        start = m.index + m[0].length;
+    }
+
+    if (start === -1) {
+        return;
+    }
+
+    let depth = 0;
+    let quote = '';
+    // Expecting property name at current location
+    let name = true;
+    let allowed = false;
+    let i = start;
+
+    while (i < code.length) {
+        if (i === pos) {
+            allowed = !depth && !quote && name;
+        }
+
+        const ch = code[i];
+        if (quote) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === quote) {
+                quote = '';
+            }
+        } else if (quotes.includes(ch)) {
+            quote = ch;
+        } else if (openBrackets.includes(ch)) {
+            depth++;
+        } else if (closeBrackets.includes(ch)) {
+            if (!depth) {
+                // End of style object
+                break;
+            }
+            depth--;
+        } else if (!depth && ch === ',') {
+            name = true;
+        } else if (!depth && ch === ':') {
+            name = false;
+        }
+
+        i++;
+    }
+
+    if (i < pos) {
+        // Style object is closed before given location
+        return;
+    }
+
+    if (i === pos) {
+        allowed = !depth && !quote && name;
+    }
+
+    return allowed ? [start, i] : undefined;
+}
+
+/**
+ * Expands given stylesheet abbreviation as properties of JSX style object.
+ * If `numbers` is `false`, pixel values are output as strings with unit
+ * (`padding: '10px'`) instead of numbers (`padding: 10`)
+ */
+export function expandStyleObject(abbr: string | StylesheetAbbreviation, config: Config, numbers = true): string {
+    const inline = !config.options['output.format'];
+    const opt: Config = {
+        ...config,
+        options: {
+            ...config.options,
+            'stylesheet.json': true,
+            // Each property is always output on its own line so that
+            // inline properties can be joined with proper separator
+            'output.format': true,
+            'output.baseIndent': inline ? '' : config.options['output.baseIndent']
+        }
+    };
+
+    const props = parseStylesheet(abbr, opt);
+    if (!numbers) {
+        quoteNumbers(props);
+    }
+
+    const result = stringifyStylesheet(props, opt);
+    return inline
+        ? result.split(/\r?\n/).map(line => line.trim().replace(/,$/, '')).join(', ')
+        : result;
+}
+
+/**
+ * Replaces single pixel values of given properties with literals so that
+ * they are output as quoted strings
+ */
+function quoteNumbers(props: StylesheetAbbreviation) {
+    for (const prop of props) {
+        if (prop.value.length === 1 && prop.value[0].value.length === 1) {
+            const token = prop.value[0].value[0];
+            if (token.type === 'NumberValue' && token.unit === 'px') {
+                prop.value[0].value[0] = {
+                    type: 'Literal',
+                    value: `${token.value}${token.unit}`
+                };
+            }
+        }
+    }
+}
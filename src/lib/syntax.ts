@@ -1,21 +1,62 @@
 import { SyntaxType, AbbreviationContext, CSSAbbreviationScope } from 'emmet';
 import { attributes } from '@emmetio/html-matcher';
 import { TokenType } from '@emmetio/css-matcher';
-import { getHTMLContext, CSSContext, HTMLContext, getCSSContext } from '@emmetio/action-utils';
+import { getHTMLContext, CSSContext, HTMLContext, HTMLAncestor, getCSSContext, TextRange } from '@emmetio/action-utils';
 import { getContent, attributeValue, last } from './utils';
+import { mapSyntax } from './vscode';
+import { getTemplateLiteral, maskCode, TemplateLiteral } from './template-literal';
+import { getStyleObject } from './style-object';
+import { getIndentedCSSContext } from './indented-css';
+import { maskServerCode } from './server-code';
+import { IndentedMarkupContext, IndentedNode, getIndentedMarkupContext, getAttributes } from './indented-markup';
 
 const xmlSyntaxes = ['xml', 'xsl'];
 const htmlSyntaxes = ['html', 'vue', 'html+erb', 'php', 'njk', 'nunj', 'blade', 'svelte', 'twig', 'liquid-html', 'jinja-html', 'jinja', 'antlers'];
 const cssSyntaxes = ['css', 'scss', 'less'];
 const jsxSyntaxes = ['jsx', 'tsx', 'javascript', 'typescript'];
-const markupSyntaxes = ['haml', 'jade', 'pug', 'slim', 'astro'].concat(htmlSyntaxes, xmlSyntaxes, jsxSyntaxes);
-const stylesheetSyntaxes = ['sass', 'sss', 'stylus', 'postcss'].concat(cssSyntaxes);
+const indentedMarkupSyntaxes = ['haml', 'jade', 'pug', 'slim'];
+const markupSyntaxes = indentedMarkupSyntaxes.concat('astro', htmlSyntaxes, xmlSyntaxes, jsxSyntaxes);
+const indentedStylesheetSyntaxes = ['sass', 'sss', 'stylus'];
+const stylesheetSyntaxes = indentedStylesheetSyntaxes.concat('postcss', cssSyntaxes);
+
+/** Type of user-defined syntax: JSX is a markup syntax with special handling */
+export type CustomSyntaxType = SyntaxType | 'jsx';
+
+export interface SyntaxMapping {
+    /** Emmet syntax name */
+    syntax: string;
+    /** Type of Emmet syntax, required for syntaxes unknown to Emmet */
+    type?: CustomSyntaxType;
+}
+
+interface SyntaxMappingCache {
+    key: string;
+    mapping: { [syntax: string]: SyntaxMapping };
+    types: { [syntax: string]: CustomSyntaxType };
+}
+
+/** Attributes of embedded `<style>` and `<template>` blocks with block syntax */
+const blockSyntaxAttributes = ['lang', 'type', 'rel'];
+
+/** Aliases of syntax names used in embedded blocks */
+const blockSyntaxAliases = {
+    styl: 'stylus',
+    pcss: 'postcss',
+    jade: 'pug'
+};
+
+const mappingKey = 'emmet.syntax-mapping';
+let mappingCache: SyntaxMappingCache | undefined;
 
 export interface SyntaxInfo {
     type: SyntaxType;
     syntax: string;
     inline?: boolean;
-    context?: HTMLContext | CSSContext;
+    context?: HTMLContext | CSSContext | IndentedMarkupContext;
+    /** HTML or CSS template literal in JavaScript code which contains location */
+    template?: TemplateLiteral;
+    /** Content range of JSX style object which contains location: `style={{ ... }}` */
+    styleObject?: TextRange;
 }
 
 /**
@@ -30,10 +71,29 @@ export interface SyntaxInfo {
 export function syntaxInfo(editor: TextEditor, pos: number): SyntaxInfo {
     let syntax = docSyntax(editor);
     let inline: boolean | undefined;
-    let context: HTMLContext | CSSContext | undefined;
+    let context: HTMLContext | CSSContext | IndentedMarkupContext | undefined;
+    let template: TemplateLiteral | undefined;
+    let styleObject: TextRange | undefined;
 
-    if (isHTML(syntax)) {
+    if (isJSX(syntax)) {
         const content = getContent(editor);
+        template = getTemplateLiteral(content, pos);
+        if (template) {
+            // `pos` is in HTML or CSS template literal
+            syntax = template.syntax;
+        } else {
+            styleObject = getStyleObject(content, pos);
+            if (styleObject) {
+                // `pos` is in JSX style object: output CSS properties inline,
+                // unless object is written on multiple lines
+                syntax = 'css';
+                inline = !/[\r\n]/.test(content.slice(styleObject[0], styleObject[1]));
+            }
+        }
+    }
+
+    if (isHTML(syntax)) {
+        const content = getSyntaxContent(editor, template);
         context = getHTMLContext(content, pos, {
           xml: isXML(syntax)
         });
@@ -42,25 +102,88 @@ export function syntaxInfo(editor: TextEditor, pos: number): SyntaxInfo {
             // `pos` is in embedded CSS
             syntax = getEmbeddedStyleSyntax(content, context) || 'css';
             inline = context.css.inline;
-            context = context.css;
+            context = isIndentedStylesheet(syntax)
+                ? getStylesheetContext(content, pos, syntax, context.css.embedded)
+                : context.css;
+        } else {
+            const embedded = getEmbeddedMarkupSyntax(content, context);
+            if (embedded) {
+                // `pos` is in template block written in another markup syntax,
+                // like `<template lang="pug">` in Vue
+                syntax = embedded;
+                context = undefined;
+            }
+        }
+    } else if ((isCSS(syntax) || isIndentedStylesheet(syntax)) && !styleObject) {
+        context = getStylesheetContext(getSyntaxContent(editor, template), pos, syntax);
+    } else if (isIndentedMarkup(syntax)) {
+        const content = getContent(editor);
+        const ctx = getIndentedMarkupContext(content, pos, syntax);
+        const styleSyntax = getIndentedStyleSyntax(ctx);
+        if (styleSyntax) {
+            // `pos` is in embedded stylesheet block, like `style.` in Pug
+            syntax = styleSyntax;
+            context = getIndentedStyleContext(content, pos, styleSyntax, ctx.raw!);
+        } else {
+            context = ctx;
         }
-    } else if (isCSS(syntax)) {
-        context = getCSSContext(getContent(editor), pos);
     }
 
     return {
         type: getSyntaxType(syntax),
         syntax,
         inline,
-        context
+        context,
+        template,
+        styleObject
     };
 }
 
 /**
- * Returns main editor syntax
+ * Returns editor content for parsing with HTML or CSS parsers. If template
+ * literal is given, everything outside of it is masked. Otherwise, server code
+ * regions like `<?php ... ?>` are masked
+ */
+export function getSyntaxContent(editor: TextEditor, template?: TemplateLiteral): string {
+    const content = getContent(editor);
+    return template
+        ? maskCode(content, template)
+        : maskServerCode(content, docSyntax(editor));
+}
+
+/**
+ * Returns CSS context for given location in code of given stylesheet syntax.
+ * Indented syntaxes like Sass and Stylus are parsed by indentation
+ * @param embedded Range of stylesheet in code, if it’s embedded into HTML
+ */
+export function getStylesheetContext(code: string, pos: number, syntax: string, embedded?: TextRange): CSSContext {
+    if (embedded) {
+        code = code.slice(embedded[0], embedded[1]);
+        pos -= embedded[0];
+    }
+
+    return isIndentedStylesheet(syntax)
+        ? getIndentedCSSContext(code, pos, syntax === 'stylus', embedded)
+        : getCSSContext(code, pos, embedded);
+}
+
+/**
+ * Returns CSS context for given location in stylesheet block embedded into
+ * indented markup: `style.` or `:scss` filter in Pug, `css:` in Slim
+ */
+export function getIndentedStyleContext(code: string, pos: number, syntax: string, block: IndentedNode): CSSContext {
+    // Include indentation of the first line to properly parse indented syntaxes
+    const start = code.lastIndexOf('\n', block.inner![0]) + 1;
+    return getStylesheetContext(code, pos, syntax, [start, block.inner![1]]);
+}
+
+/**
+ * Returns main editor syntax, mapped to Emmet syntax if required
  */
 export function docSyntax(editor: TextEditor): string {
-    return editor.document.syntax || '';
+    const syntax = editor.document.syntax || '';
+    const mapped = getSyntaxMapping().mapping[syntax];
+    return mapped ? mapped.syntax : mapSyntax(syntax);
 }
 
 /**
@@ -75,7 +198,7 @@ export function getSyntaxType(syntax?: string): SyntaxType {
  */
 export function isXML(syntax?: string): boolean {
     return syntax
-        ? xmlSyntaxes.includes(syntax) || jsxSyntaxes.includes(syntax)
+        ? xmlSyntaxes.includes(syntax) || isJSX(syntax)
         : false;
 }
 
@@ -84,7 +207,7 @@ export function isXML(syntax?: string): boolean {
  */
 export function isHTML(syntax?: string): boolean {
     return syntax
-        ? htmlSyntaxes.includes(syntax) || isXML(syntax)
+        ? htmlSyntaxes.includes(syntax) || isXML(syntax) || customSyntaxType(syntax) === 'markup'
         : false;
 }
 
@@ -99,14 +222,19 @@ export function isSupported(syntax: string): boolean {
  * Check if given syntax is a known markup Emmet syntax
  */
 export function isMarkupSyntax(syntax: string): boolean {
-    return markupSyntaxes.includes(syntax);
+    if (markupSyntaxes.includes(syntax)) {
+        return true;
+    }
+
+    const type = customSyntaxType(syntax);
+    return type === 'markup' || type === 'jsx';
 }
 
 /**
  * Check if given syntax is a known stylesheet Emmet syntax
  */
 export function isStylesheetSyntax(syntax: string): boolean {
-    return stylesheetSyntaxes.includes(syntax);
+    return stylesheetSyntaxes.includes(syntax) || customSyntaxType(syntax) === 'stylesheet';
 }
 
 /**
@@ -114,14 +242,111 @@ export function isStylesheetSyntax(syntax: string): boolean {
  * syntax: for example, SASS is a stylesheet but not CSS dialect (but SCSS is)
  */
 export function isCSS(syntax?: string): boolean {
-    return syntax ? cssSyntaxes.includes(syntax) : false;
+    return syntax
+        ? cssSyntaxes.includes(syntax) || customSyntaxType(syntax) === 'stylesheet'
+        : false;
+}
+
+/**
+ * Check if given syntax is an indented stylesheet syntax, where sections are
+ * defined by indentation instead of braces, like Sass or Stylus
+ */
+export function isIndentedStylesheet(syntax?: string): boolean {
+    return syntax ? indentedStylesheetSyntaxes.includes(syntax) : false;
+}
+
+/**
+ * Check if given syntax is an indented markup syntax, where element nesting
+ * is defined by indentation, like Pug or Slim
+ */
+export function isIndentedMarkup(syntax?: string): boolean {
+    return syntax ? indentedMarkupSyntaxes.includes(syntax) : false;
 }
 
 /**
  * Check if given syntax is JSX dialect
  */
 export function isJSX(syntax?: string): boolean {
-    return syntax ? jsxSyntaxes.includes(syntax) : false;
+    return syntax
+        ? jsxSyntaxes.includes(syntax) || customSyntaxType(syntax) === 'jsx'
+        : false;
+}
+
+/**
+ * Parses user-defined mapping of editor syntaxes to Emmet syntaxes. Each line
+ * of given text contains comma-separated editor syntaxes, a colon, Emmet syntax
+ * and optional syntax type (`markup`, `stylesheet` or `jsx`):
+ * `heex, eex, razor: html`, `mdx: mdx jsx`
+ */
+export function parseSyntaxMapping(text?: string | null): { [syntax: string]: SyntaxMapping } {
+    const result: { [syntax: string]: SyntaxMapping } = {};
+    if (!text) {
+        return result;
+    }
+
+    for (const line of text.split(/[\r\n]+/)) {
+        const sep = line.indexOf(':');
+        if (sep === -1) {
+            continue;
+        }
+
+        const [syntax, type] = line.slice(sep + 1).trim().toLowerCase().split(/\s+/);
+        if (!syntax) {
+            continue;
+        }
+
+        const mapping: SyntaxMapping = { syntax };
+        if (type === 'markup' || type === 'stylesheet' || type === 'jsx') {
+            mapping.type = type;
+        }
+
+        for (const name of line.slice(0, sep).split(',')) {
+            const key = name.trim().toLowerCase();
+            if (key) {
+                result[key] = mapping;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns type of user-defined Emmet syntax, if given syntax is not known
+ * by Emmet
+ */
+function customSyntaxType(syntax: string): CustomSyntaxType | undefined {
+    return getSyntaxMapping().types[syntax];
+}
+
+/**
+ * Returns user-defined syntax mapping from global and workspace preferences.
+ * Workspace mapping takes precedence
+ */
+function getSyntaxMapping(): SyntaxMappingCache {
+    const globalMapping = nova.config.get(mappingKey, 'string') || '';
+    const workspaceMapping = nova.workspace.config.get(mappingKey, 'string') || '';
+    const key = `${globalMapping}\n${workspaceMapping}`;
+
+    if (!mappingCache || mappingCache.key !== key) {
+        const mapping = {
+            ...parseSyntaxMapping(globalMapping),
+            ...parseSyntaxMapping(workspaceMapping)
+        };
+        const types: { [syntax: string]: CustomSyntaxType } = {};
+
+        for (const name of Object.keys(mapping)) {
+            // Type matters for syntaxes unknown to Emmet only
+            const { syntax, type } = mapping[name];
+            if (!markupSyntaxes.includes(syntax) && !stylesheetSyntaxes.includes(syntax)) {
+                types[syntax] = type || 'markup';
+            }
+        }
+
+        mappingCache = { key, mapping, types };
+    }
+
+    return mappingCache;
 }
 
 /**
@@ -130,14 +355,76 @@ export function isJSX(syntax?: string): boolean {
 export function getEmbeddedStyleSyntax(code: string, ctx: HTMLContext): string | undefined {
     const parent = last(ctx.ancestors);
     if (parent && parent.name === 'style') {
-        for (const attr of attributes(code.slice(parent.range[0], parent.range[1]), parent.name)) {
-            if (attr.name === 'type') {
-                return attributeValue(attr);
+        const syntax = getBlockSyntax(code, parent);
+        if (syntax && isStylesheetSyntax(syntax)) {
+            return syntax;
+        }
+    }
+}
+
+/**
+ * Returns markup syntax of embedded template block from given HTML context,
+ * if it differs from HTML: `<template lang="pug">`
+ */
+export function getEmbeddedMarkupSyntax(code: string, ctx: HTMLContext): string | undefined {
+    for (let i = ctx.ancestors.length - 1; i >= 0; i--) {
+        const tag = ctx.ancestors[i];
+        if (tag.name === 'template') {
+            const syntax = getBlockSyntax(code, tag);
+            if (syntax) {
+                return isMarkupSyntax(syntax) && !isHTML(syntax) ? syntax : undefined;
             }
         }
     }
 }
 
+/**
+ * Returns stylesheet syntax of embedded block in indented markup which
+ * contains location from given context: filters like `:scss` in Pug and Haml,
+ * embedded engines like `css:` in Slim or `style.` text block in Pug
+ */
+export function getIndentedStyleSyntax(ctx: IndentedMarkupContext): string | undefined {
+    const { raw } = ctx;
+    let syntax: string | undefined;
+
+    if (raw && raw.type === 'filter') {
+        syntax = normalizeBlockSyntax(raw.name);
+    } else if (raw && raw.type === 'element' && raw.name === 'style') {
+        const attr = raw.attributes.find(item => item.value && blockSyntaxAttributes.includes(item.name.toLowerCase()));
+        syntax = attr ? normalizeBlockSyntax(attr.value!) : 'css';
+    }
+
+    if (syntax && isStylesheetSyntax(syntax)) {
+        return syntax;
+    }
+}
+
+/**
+ * Returns syntax name of embedded block, defined in one of its attributes:
+ * `lang="scss"`, `type="text/x-scss"` or `rel="stylesheet/less"`
+ */
+function getBlockSyntax(code: string, tag: HTMLAncestor): string | undefined {
+    for (const attr of attributes(code.slice(tag.range[0], tag.range[1]), tag.name)) {
+        if (blockSyntaxAttributes.includes(attr.name.toLowerCase())) {
+            const value = attributeValue(attr);
+            if (value) {
+                return normalizeBlockSyntax(value);
+            }
+        }
+    }
+}
+
+/**
+ * Returns syntax name from value of embedded block syntax attribute or filter
+ * name: `text/x-scss` → `scss`, `styl` → `stylus`
+ */
+function normalizeBlockSyntax(value: string): string {
+    const syntax = value.trim().toLowerCase()
+        .replace(/^(text|application|stylesheet)\//, '')
+        .replace(/^x-/, '');
+    return blockSyntaxAliases[syntax] || syntax;
+}
+
 /**
  * Returns context for Emmet abbreviation from given HTML context
  */
@@ -156,6 +443,19 @@ export function getMarkupAbbreviationContext(code: string, ctx: HTMLContext): Ab
     }
 }
 
+/**
+ * Returns context for Emmet abbreviation from given indented markup context
+ */
+export function getIndentedAbbreviationContext(ctx: IndentedMarkupContext): AbbreviationContext | undefined {
+    const parent = last(ctx.ancestors);
+    if (parent) {
+        return {
+            name: parent.name,
+            attributes: getAttributes(parent)
+        };
+    }
+}
+
 /**
  * Returns context for Emmet abbreviation from given CSS context
  */
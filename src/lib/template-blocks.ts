@@ -0,0 +1,224 @@
+import { TextRange } from '@emmetio/action-utils';
+
+export interface TemplateBlock {
+    name: string;
+    open: TextRange;
+    close: TextRange;
+}
+
+interface BlockToken {
+    name: string;
+    range: TextRange;
+    close: boolean;
+}
+
+type TokenScanner = (code: string) => BlockToken[];
+
+/** Blade directives which close `@section` block */
+const reBladeSectionClose = /^(show|stop|append|overwrite)$/;
+
+const scanners: { [syntax: string]: TokenScanner } = {
+    twig: scanTagTokens,
+    njk: scanTagTokens,
+    nunj: scanTagTokens,
+    jinja: scanTagTokens,
+    'jinja-html': scanTagTokens,
+    'liquid-html': scanTagTokens,
+    blade: scanBladeTokens,
+    antlers: scanAntlersTokens
+};
+
+/**
+ * Check if given syntax supports template blocks like `{% if %}...{% endif %}`
+ */
+export function hasTemplateBlocks(syntax: string): boolean {
+    return syntax in scanners;
+}
+
+/**
+ * Returns all matched template blocks in given code, ordered by location
+ * of opening directive. Directives without matching pair, like `{% else %}`
+ * or `@include(...)`, are ignored
+ */
+export function getTemplateBlocks(code: string, syntax: string): TemplateBlock[] {
+    const scanner = scanners[syntax];
+    const result: TemplateBlock[] = [];
+    if (!scanner) {
+        return result;
+    }
+
+    const stack: BlockToken[] = [];
+    for (const token of scanner(code)) {
+        if (!token.close) {
+            stack.push(token);
+            continue;
+        }
+
+        let ix = stack.length - 1;
+        while (ix >= 0 && stack[ix].name !== token.name) {
+            ix--;
+        }
+
+        if (ix !== -1) {
+            const open = stack[ix];
+            stack.length = ix;
+            result.push({
+                name: open.name,
+                open: open.range,
+                close: token.range
+            });
+        }
+    }
+
+    return result.sort((a, b) => a.open[0] - b.open[0]);
+}
+
+/**
+ * Returns innermost template block which contains given location
+ */
+export function matchTemplateBlock(code: string, pos: number, syntax: string): TemplateBlock | undefined {
+    let result: TemplateBlock | undefined;
+    for (const block of getTemplateBlocks(code, syntax)) {
+        if (block.open[0] < pos && pos < block.close[1]) {
+            result = block;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns list of template blocks for balancing, similar to HTML matcher:
+ * for outward balancing it’s a list of all blocks containing given location,
+ * for inward it’s the innermost block with a chain of its first children
+ */
+export function balanceTemplateBlocks(code: string, pos: number, syntax: string, inward = false): TemplateBlock[] {
+    const blocks = getTemplateBlocks(code, syntax);
+
+    if (!inward) {
+        return blocks.filter(block => block.open[0] < pos && pos < block.close[1]);
+    }
+
+    let parent: TemplateBlock | undefined;
+    for (const block of blocks) {
+        if (block.open[0] <= pos && pos <= block.close[1]) {
+            parent = block;
+        }
+    }
+
+    const result: TemplateBlock[] = [];
+    while (parent) {
+        result.push(parent);
+        const { open, close } = parent;
+        parent = blocks.find(block => block.open[0] >= open[1] && block.close[1] <= close[0]);
+    }
+
+    return result;
+}
+
+/**
+ * Collects tag tokens of Twig, Nunjucks, Jinja and Liquid templates:
+ * `{% name %}` opens block, `{% endname %}` closes it
+ */
+function scanTagTokens(code: string): BlockToken[] {
+    const result: BlockToken[] = [];
+    const re = /\{%-?\s*(\w+)[^]*?%\}/g;
+    let m: RegExpExecArray | null;
+
+    while ((m = re.exec(code))) {
+        const name = m[1];
+        const close = name.length > 3 && name.startsWith('end');
+        result.push({
+            name: close ? name.slice(3) : name,
+            range: [m.index, m.index + m[0].length],
+            close
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Collects Blade directive tokens: `@name(...)` opens block, `@endname`
+ * closes it. Escaped directives like `@@if` and e-mail addresses are skipped
+ */
+function scanBladeTokens(code: string): BlockToken[] {
+    const result: BlockToken[] = [];
+    const re = /(^|[^\w@])@(\w+)/g;
+    let m: RegExpExecArray | null;
+
+    while ((m = re.exec(code))) {
+        const start = m.index + m[1].length;
+        const end = consumeArgs(code, re.lastIndex);
+        let name = m[2];
+        let close = false;
+
+        if (name.length > 3 && name.startsWith('end')) {
+            name = name.slice(3);
+            close = true;
+        } else if (reBladeSectionClose.test(name)) {
+            name = 'section';
+            close = true;
+        }
+
+        result.push({ name, range: [start, end], close });
+        re.lastIndex = end;
+    }
+
+    return result;
+}
+
+/**
+ * Collects Antlers tag tokens: `{{ name }}` opens block, `{{ /name }}` closes it
+ */
+function scanAntlersTokens(code: string): BlockToken[] {
+    const result: BlockToken[] = [];
+    const re = /\{\{\s*(\/?)([\w:-]+)[^]*?\}\}/g;
+    let m: RegExpExecArray | null;
+
+    while ((m = re.exec(code))) {
+        result.push({
+            name: m[2],
+            range: [m.index, m.index + m[0].length],
+            close: !!m[1]
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Consumes parenthesized directive arguments, if any, starting at `pos`.
+ * Returns location after arguments
+ */
+function consumeArgs(code: string, pos: number): number {
+    let ix = pos;
+    while (ix < code.length && (code[ix] === ' ' || code[ix] === '\t')) {
+        ix++;
+    }
+
+    if (code[ix] !== '(') {
+        return pos;
+    }
+
+    let depth = 0;
+    let quote = '';
+    while (ix < code.length) {
+        const ch = code[ix++];
+        if (quote) {
+            if (ch === '\\') {
+                ix++;
+            } else if (ch === quote) {
+                quote = '';
+            }
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')' && --depth === 0) {
+            return ix;
+        }
+    }
+
+    return pos;
+}
@@ -0,0 +1,201 @@
+import { TextRange } from '@emmetio/action-utils';
+import { resumeOffset, ScanCheckpoint } from './utils';
+
+export interface TemplateLiteral {
+    /** Syntax of template literal content */
+    syntax: 'html' | 'css';
+    /** Range of template literal content, without backticks */
+    range: TextRange;
+}
+
+interface TemplateState {
+    type: 'template';
+    start: number;
+    syntax?: 'html' | 'css';
+}
+
+interface ExpressionState {
+    type: 'expression';
+    braces: number;
+}
+
+type State = TemplateState | ExpressionState;
+
+const enum Chars {
+    Backtick = 96,
+    Dollar = 36,
+    CurlyBracketOpen = 123,
+    CurlyBracketClose = 125,
+    Slash = 47,
+    Asterisk = 42,
+    Backslash = 92,
+    SingleQuote = 39,
+    DoubleQuote = 34,
+    LF = 10,
+}
+
+/**
+ * Text before template literal which marks its content as HTML:
+ * `html`...``, `svg`...``, `/* HTML *\/ `...``, `template: `...``
+ */
+const reHTMLTag = /(?:(?:^|[^\w$.])(?:html|svg)|\/\*\s*html\s*\*\/|(?:^|[^\w$])template\s*:)\s*$/i;
+
+/**
+ * Text before template literal which marks its content as CSS:
+ * `css`...``, `/* CSS *\/ `...``, `styled.div`...``, `styled(Button).attrs(...)`...``
+ */
+const reCSSTag = /(?:(?:^|[^\w$.])(?:css|keyframes|injectGlobal|createGlobalStyle)|\/\*\s*css\s*\*\/|(?:^|[^\w$])styled(?:\.\w+|\([^()]*\))(?:\.attrs\([^()]*\))?(?:\s*<[^<>]*>)?)\s*$/i;
+
+/** Max amount of characters before template literal to look for tag */
+const tagLookbehind = 200;
+
+/** Checkpoint of last template literal lookup */
+let lastCheckpoint: ScanCheckpoint | undefined;
+
+/**
+ * Returns HTML or CSS template literal which contains given location in
+ * JavaScript code. Template literal is detected by its tag:
+ * `html`...``, `css`...``, `styled.div`...`` or `/* HTML *\/ `...``.
+ * Returns `undefined` if location is not inside such template literal or
+ * inside its `${...}` expression
+ */
+export function getTemplateLiteral(code: string, pos: number): TemplateLiteral | undefined {
+    const stack: State[] = [];
+    let target: TemplateState | undefined;
+    let i = resumeOffset(lastCheckpoint, code, pos);
+    let checkpoint = i;
+
+    while (i < code.length) {
+        const state = stack[stack.length - 1];
+
+        if (!state && i < pos) {
+            checkpoint = i;
+        }
+
+        if (!target && i >= pos) {
+            lastCheckpoint = { code, offset: checkpoint };
+            if (!state || state.type !== 'template' || !state.syntax) {
+                return;
+            }
+            target = state;
+        }
+
+        const ch = code.charCodeAt(i);
+
+        if (state && state.type === 'template') {
+            if (ch === Chars.Backslash) {
+                i += 2;
+            } else if (ch === Chars.Backtick) {
+                stack.pop();
+                if (state === target) {
+                    return { syntax: target.syntax!, range: [target.start, i] };
+                }
+                i++;
+            } else if (ch === Chars.Dollar && code.charCodeAt(i + 1) === Chars.CurlyBracketOpen) {
+                stack.push({ type: 'expression', braces: 0 });
+                i += 2;
+            } else {
+                i++;
+            }
+            continue;
+        }
+
+        if (ch === Chars.Slash && code.charCodeAt(i + 1) === Chars.Slash) {
+            i = skipUntil(code, i + 2, '\n');
+        } else if (ch === Chars.Slash && code.charCodeAt(i + 1) === Chars.Asterisk) {
+            i = skipUntil(code, i + 2, '*/');
+        } else if (ch === Chars.SingleQuote || ch === Chars.DoubleQuote) {
+            i = skipString(code, i);
+        } else if (ch === Chars.Backtick) {
+            stack.push({
+                type: 'template',
+                start: i + 1,
+                syntax: getTemplateSyntax(code.slice(Math.max(0, i - tagLookbehind), i))
+            });
+            i++;
+        } else {
+            if (state && state.type === 'expression') {
+                if (ch === Chars.CurlyBracketOpen) {
+                    state.braces++;
+                } else if (ch === Chars.CurlyBracketClose) {
+                    if (state.braces) {
+                        state.braces--;
+                    } else {
+                        stack.pop();
+                    }
+                }
+            }
+            i++;
+        }
+    }
+
+    if (!target && pos >= code.length) {
+        lastCheckpoint = { code, offset: checkpoint };
+        // Location is at the end of unclosed template literal
+        const state = stack[stack.length - 1];
+        if (state && state.type === 'template' && state.syntax) {
+            target = state;
+        }
+    }
+
+    if (target) {
+        return { syntax: target.syntax!, range: [target.start, code.length] };
+    }
+}
+
+/**
+ * Returns copy of given code where everything except template literal content
+ * is replaced with spaces, so that code can be parsed by HTML or CSS parsers
+ * with locations preserved. Content of CSS template literal is wrapped
+ * with braces since it usually contains a list of properties
+ */
+export function maskCode(code: string, template: TemplateLiteral): string {
+    const [start, end] = template.range;
+    const before = mask(code.slice(0, start));
+    const after = mask(code.slice(end));
+    const content = code.slice(start, end);
+
+    if (template.syntax === 'css') {
+        // Replace backticks with braces
+        return before.slice(0, -1) + '{' + content
+            + (end < code.length ? '}' + after.slice(1) : '');
+    }
+
+    return before + content + after;
+}
+
+/**
+ * Detects syntax of template literal from code right before it
+ */
+function getTemplateSyntax(prefix: string): 'html' | 'css' | undefined {
+    if (reHTMLTag.test(prefix)) {
+        return 'html';
+    }
+
+    if (reCSSTag.test(prefix)) {
+        return 'css';
+    }
+}
+
+function skipUntil(code: string, pos: number, str: string): number {
+    const ix = code.indexOf(str, pos);
+    return ix !== -1 ? ix + str.length : code.length;
+}
+
+function skipString(code: string, pos: number): number {
+    const quote = code.charCodeAt(pos++);
+    while (pos < code.length) {
+        const ch = code.charCodeAt(pos++);
+        if (ch === Chars.Backslash) {
+            pos++;
+        } else if (ch === quote || ch === Chars.LF) {
+            break;
+        }
+    }
+
+    return pos;
+}
+
+function mask(str: string): string {
+    return str.replace(/[^\r\n]/g, ' ');
+}
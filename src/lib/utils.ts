@@ -43,13 +43,35 @@ export function narrowToNonSpace(editor: TextEditor, range: TextRange): TextRang
     return [range[0] + startOffset, range[0] + endOffset];
 }
 
+export interface SnippetReplacement {
+    range: Range;
+    snippet: string;
+}
+
 /**
  * Replaces given range in editor with snippet contents
  */
 export function replaceWithSnippet(editor: TextEditor, range: Range, snippet: string): void {
+    replaceWithSnippets(editor, [{ range, snippet }]);
+}
+
+/**
+ * Replaces given ranges in editor with snippets contents in a single undo step.
+ * Overlapping ranges are ignored
+ */
+export function replaceWithSnippets(editor: TextEditor, replacements: SnippetReplacement[]): void {
+    // Apply replacements from the end of document so that changes won’t
+    // affect ranges of pending replacements
+    const items = replacements.slice().sort((a, b) => b.range.start - a.range.start);
     editor.edit(edit => {
-        edit.delete(range);
-        edit.insert(range.start, snippet, InsertTextFormat.Snippet);
+        let lastStart = Number.POSITIVE_INFINITY;
+        for (const { range, snippet } of items) {
+            if (range.end <= lastStart) {
+                edit.delete(range);
+                edit.insert(range.start, snippet, InsertTextFormat.Snippet);
+                lastStart = range.start;
+            }
+        }
     });
 }
 
@@ -60,6 +82,13 @@ export function getCaret(editor: TextEditor): number {
     return editor.selectedRange.start;
 }
 
+/**
+ * Returns caret positions of all selections, ordered by location
+ */
+export function getCarets(editor: TextEditor): number[] {
+    return editor.selectedRanges.map(sel => sel.start).sort((a, b) => a - b);
+}
+
 /**
  * Returns full text content of given editor
  */
@@ -94,6 +123,20 @@ export async function readFile(filePath: string, size?: number): Promise<ArrayBu
     return data;
 }
 
+/**
+ * Reads contents of given local text file. Returns `undefined` if file doesn’t
+ * exist or is not a regular file
+ */
+export function readTextFile(filePath: string): string | undefined {
+    const stats = nova.fs.stat(filePath);
+    if (stats && stats.isFile()) {
+        const file = nova.fs.open(filePath, 'r');
+        const data = file.read() as string | null;
+        file.close();
+        return data || '';
+    }
+}
+
 /**
  * Locate `fileName` file relative to `editorFile`.
  * If `fileName` is absolute, will traverse up to folder structure looking for
@@ -342,3 +385,35 @@ export function unescapeString(str: string): string {
 export function last<T>(arr: T[]): T | undefined {
     return arr.length > 0 ? arr[arr.length - 1] : undefined;
 }
+
+/**
+ * Check if given value is a plain object, e.g. parsed JSON object
+ */
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+    return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export interface ScanCheckpoint {
+    /** Scanned code */
+    code: string;
+    /** Location in code where scanner is at top level, e.g. not in literal */
+    offset: number;
+}
+
+/**
+ * Returns location from which given code can be scanned up to `pos`: either
+ * checkpoint of previous scan, if code before it is unchanged, or code start.
+ * Used to not rescan whole document on every keystroke
+ */
+export function resumeOffset(checkpoint: ScanCheckpoint | undefined, code: string, pos: number): number {
+    if (checkpoint && checkpoint.offset <= pos && checkpoint.offset < code.length) {
+        // NB: character at checkpoint must be the same as well since it
+        // terminates previous token, e.g. new line after line comment
+        const end = checkpoint.offset + 1;
+        if (checkpoint.code === code || checkpoint.code.slice(0, end) === code.slice(0, end)) {
+            return checkpoint.offset;
+        }
+    }
+
+    return 0;
+}
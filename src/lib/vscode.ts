@@ -0,0 +1,381 @@
+import { GlobalConfig, Options, SyntaxType } from 'emmet';
+import { readTextFile, isObject } from './utils';
+
+export interface VSCodeConfig {
+    /** Maps editor syntax to Emmet syntax, from `emmet.includeLanguages` */
+    syntaxMap: { [syntax: string]: string };
+    /** Emmet config with variables and options of each syntax */
+    config: GlobalConfig;
+}
+
+type JSONObject = { [key: string]: unknown };
+
+/** Path of VS Code workspace settings file, relative to workspace root */
+export const settingsFile = '.vscode/settings.json';
+
+/**
+ * Maps VS Code language identifiers to Emmet syntaxes
+ */
+const languageMap: { [lang: string]: string } = {
+    javascriptreact: 'jsx',
+    typescriptreact: 'jsx',
+    jade: 'pug'
+};
+
+/**
+ * Maps keys of `emmet.syntaxProfiles` to Emmet output options.
+ * Both legacy (snake_case) and modern (camelCase) keys are supported
+ */
+const profileMap: { [key: string]: keyof Options } = {
+    tag_case: 'output.tagCase',
+    tagCase: 'output.tagCase',
+    attr_case: 'output.attributeCase',
+    attributeCase: 'output.attributeCase',
+    attr_quotes: 'output.attributeQuotes',
+    attributeQuotes: 'output.attributeQuotes',
+    self_closing_tag: 'output.selfClosingStyle',
+    selfClosingStyle: 'output.selfClosingStyle',
+    tag_nl: 'output.format',
+    format: 'output.format',
+    inline_break: 'output.inlineBreak',
+    inlineBreak: 'output.inlineBreak',
+    compact_bool: 'output.compactBoolean',
+    compactBooleanAttributes: 'output.compactBoolean',
+    booleanAttributes: 'output.booleanAttributes',
+    formatSkip: 'output.formatSkip',
+    formatForce: 'output.formatForce',
+    reverseAttributes: 'output.reverseAttributes',
+    markupHref: 'markup.href',
+    indent: 'output.indent'
+};
+
+/**
+ * Maps keys of `emmet.preferences` to syntax (or syntax type) and Emmet option
+ */
+const preferencesMap: { [key: string]: [string, keyof Options] } = {
+    'css.intUnit': ['stylesheet', 'stylesheet.intUnit'],
+    'css.floatUnit': ['stylesheet', 'stylesheet.floatUnit'],
+    'css.unitAliases': ['stylesheet', 'stylesheet.unitAliases'],
+    'css.color.short': ['stylesheet', 'stylesheet.shortHex'],
+    'css.fuzzySearchMinScore': ['stylesheet', 'stylesheet.fuzzySearchMinScore'],
+    'css.propertyEnd': ['css', 'stylesheet.after'],
+    'css.valueSeparator': ['css', 'stylesheet.between'],
+    'sass.propertyEnd': ['sass', 'stylesheet.after'],
+    'sass.valueSeparator': ['sass', 'stylesheet.between'],
+    'stylus.propertyEnd': ['stylus', 'stylesheet.after'],
+    'stylus.valueSeparator': ['stylus', 'stylesheet.between'],
+    'bem.elementSeparator': ['markup', 'bem.element'],
+    'bem.modifierSeparator': ['markup', 'bem.modifier'],
+    'filter.commentBefore': ['markup', 'comment.before'],
+    'filter.commentAfter': ['markup', 'comment.after'],
+    'filter.commentTrigger': ['markup', 'comment.trigger'],
+    'format.noIndentTags': ['markup', 'output.formatSkip'],
+    'format.forceIndentationForTags': ['markup', 'output.formatForce'],
+    'profile.allowCompactBoolean': ['markup', 'output.compactBoolean'],
+    'output.reverseAttributes': ['markup', 'output.reverseAttributes'],
+    'output.selfClosingStyle': ['markup', 'output.selfClosingStyle'],
+    'output.inlineBreak': ['markup', 'output.inlineBreak']
+};
+
+/** Options which expect list of values */
+const listOptions: Array<keyof Options> = [
+    'output.formatSkip', 'output.formatForce', 'output.booleanAttributes', 'comment.trigger'
+];
+
+let vscodeConfig: VSCodeConfig | undefined;
+let issues: IssueCollection | undefined;
+
+/**
+ * Returns Emmet config imported from VS Code workspace settings, if any
+ */
+export function getVSCodeConfig(): VSCodeConfig | undefined {
+    return vscodeConfig;
+}
+
+/**
+ * Loads Emmet config from VS Code workspace settings and reports its parsing
+ * errors as issues of settings file
+ */
+export function loadVSCodeSettings(): VSCodeConfig | undefined {
+    vscodeConfig = undefined;
+    issues?.clear();
+
+    const { path } = nova.workspace;
+    const filePath = path ? nova.path.join(path, settingsFile) : undefined;
+    const text = filePath ? readTextFile(filePath) : undefined;
+    if (!filePath || !text) {
+        return;
+    }
+
+    try {
+        vscodeConfig = parseVSCodeSettings(text);
+    } catch (err) {
+        const m = String(err && err.message).match(/at position (\d+)/);
+        const pos = m ? Number(m[1]) : 0;
+        if (!issues) {
+            issues = new IssueCollection('Emmet');
+        }
+
+        const issue = new Issue();
+        issue.code = 'EmmetSettingsError';
+        issue.severity = IssueSeverity.Warning;
+        issue.message = `Unable to parse Emmet settings: ${err.message}`;
+        issue.textRange = new Range(pos, Math.min(pos + 1, text.length));
+        issues.set(`file://${filePath}`, [issue]);
+    }
+
+    return vscodeConfig;
+}
+
+/**
+ * Starts watching for VS Code workspace settings: re-loads them on every change
+ * and invokes given `callback`
+ */
+export default function watchVSCodeSettings(callback: () => void): Disposable {
+    const disposable = new CompositeDisposable();
+    loadVSCodeSettings();
+    disposable.add(nova.fs.watch(settingsFile, () => {
+        loadVSCodeSettings();
+        callback();
+    }));
+    disposable.add({
+        dispose() {
+            vscodeConfig = undefined;
+            issues?.dispose();
+            issues = undefined;
+        }
+    });
+
+    return disposable;
+}
+
+/**
+ * Returns Emmet output options for given syntax, imported from VS Code settings.
+ * These options should take precedence over plugin preferences
+ */
+export function getVSCodeOptions(syntax: string, type: SyntaxType): Partial<Options> {
+    if (!vscodeConfig) {
+        return {};
+    }
+
+    const { config } = vscodeConfig;
+    return {
+        ...config[type]?.options,
+        ...config[syntax]?.options
+    };
+}
+
+/**
+ * Returns Emmet syntax for given editor syntax, mapped with `emmet.includeLanguages`
+ */
+export function mapSyntax(syntax: string): string {
+    return vscodeConfig?.syntaxMap[syntax] || syntax;
+}
+
+/**
+ * Parses contents of VS Code settings file and converts Emmet-related keys into
+ * plugin config
+ */
+export function parseVSCodeSettings(text: string): VSCodeConfig {
+    const data: unknown = JSON.parse(stripJSONComments(text));
+    const settings = isObject(data) ? data : {};
+    const result: VSCodeConfig = {
+        syntaxMap: {},
+        config: {}
+    };
+
+    const includeLanguages = settings['emmet.includeLanguages'];
+    if (isObject(includeLanguages)) {
+        for (const lang of Object.keys(includeLanguages)) {
+            const target = includeLanguages[lang];
+            if (typeof target === 'string') {
+                result.syntaxMap[lang] = languageMap[target] || target;
+            }
+        }
+    }
+
+    const variables = settings['emmet.variables'];
+    if (isObject(variables)) {
+        const values: { [name: string]: string } = {};
+        for (const key of Object.keys(variables)) {
+            const value = variables[key];
+            if (typeof value === 'string') {
+                values[key] = value;
+            }
+        }
+        setVariables(result.config, 'markup', values);
+        setVariables(result.config, 'stylesheet', values);
+    }
+
+    const preferences = settings['emmet.preferences'];
+    if (isObject(preferences)) {
+        for (const key of Object.keys(preferences)) {
+            if (key in preferencesMap) {
+                const [syntax, option] = preferencesMap[key];
+                setOptions(result.config, syntax, {
+                    [option]: convertValue(option, preferences[key])
+                });
+            }
+        }
+    }
+
+    const profiles = settings['emmet.syntaxProfiles'];
+    if (isObject(profiles)) {
+        for (const syntax of Object.keys(profiles)) {
+            let profile = profiles[syntax];
+            if (typeof profile === 'string') {
+                // Profile is a reference to other syntax profile or a
+                // self-closing style alias
+                const ref = profiles[profile];
+                profile = isObject(ref) ? ref : { selfClosingStyle: profile };
+            }
+
+            if (isObject(profile)) {
+                setOptions(result.config, languageMap[syntax] || syntax, convertProfile(profile));
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Converts VS Code syntax profile into Emmet options
+ */
+function convertProfile(profile: JSONObject): JSONObject {
+    const options: JSONObject = {};
+    for (const key of Object.keys(profile)) {
+        const value = profile[key];
+        if (key === 'filters') {
+            const filters = toList(value);
+            options['bem.enabled'] = filters.includes('bem');
+            options['comment.enabled'] = filters.includes('c');
+        } else if (key in profileMap) {
+            const option = profileMap[key];
+            options[option] = convertValue(option, value);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Converts given VS Code setting value into value of Emmet option
+ */
+function convertValue(option: keyof Options, value: unknown): unknown {
+    if (listOptions.includes(option)) {
+        return toList(value);
+    }
+
+    if (option === 'output.selfClosingStyle') {
+        if (typeof value === 'boolean') {
+            return value ? 'xhtml' : 'html';
+        }
+
+        return value === 'xhtml' || value === 'xml' ? value : 'html';
+    }
+
+    if (option === 'output.format' && typeof value !== 'boolean') {
+        // Legacy `tag_nl` option may contain `decide` value
+        return value !== false;
+    }
+
+    if (option === 'output.indent' && typeof value === 'number') {
+        return ' '.repeat(value);
+    }
+
+    if (option === 'stylesheet.unitAliases' && typeof value === 'string') {
+        // String like `e:em, p:%`
+        const aliases: { [alias: string]: string } = {};
+        for (const item of toList(value)) {
+            const [alias, unit] = item.split(':').map(s => s.trim());
+            if (alias && unit) {
+                aliases[alias] = unit;
+            }
+        }
+        return aliases;
+    }
+
+    if (option === 'output.tagCase' || option === 'output.attributeCase') {
+        return value === 'upper' || value === 'lower' ? value : '';
+    }
+
+    if (option === 'output.attributeQuotes') {
+        return value === 'single' ? 'single' : 'double';
+    }
+
+    return value;
+}
+
+function setVariables(config: GlobalConfig, syntax: string, variables: { [name: string]: string }) {
+    const section = config[syntax] || (config[syntax] = {});
+    section.variables = { ...section.variables, ...variables };
+}
+
+function setOptions(config: GlobalConfig, syntax: string, options: JSONObject) {
+    const section = config[syntax] || (config[syntax] = {});
+    // NB: option values are converted with `convertValue()` to match Emmet types
+    section.options = { ...section.options, ...options as Partial<Options> };
+}
+
+function toList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+
+    return String(value).split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Removes comments and trailing commas from given JSON source, e.g. converts
+ * JSON with comments (which is used by VS Code) to plain JSON. Removed
+ * fragments are replaced with spaces to keep locations of the rest code
+ */
+function stripJSONComments(text: string): string {
+    let result = '';
+    let pos = 0;
+    let lastCopy = 0;
+    let commaPos = -1;
+    const { length } = text;
+
+    const skip = (end: number) => {
+        result += text.slice(lastCopy, pos) + text.slice(pos, end).replace(/[^\r\n]/g, ' ');
+        lastCopy = pos = end;
+    };
+
+    while (pos < length) {
+        const ch = text[pos];
+        if (ch === '"') {
+            // Skip string
+            pos++;
+            while (pos < length && text[pos] !== '"') {
+                pos += text[pos] === '\\' ? 2 : 1;
+            }
+            pos++;
+            commaPos = -1;
+        } else if (ch === '/' && text[pos + 1] === '/') {
+            const end = text.indexOf('\n', pos);
+            skip(end === -1 ? length : end);
+        } else if (ch === '/' && text[pos + 1] === '*') {
+            const end = text.indexOf('*/', pos + 2);
+            skip(end === -1 ? length : end + 2);
+        } else if (ch === ',') {
+            commaPos = result.length + pos - lastCopy;
+            pos++;
+        } else if ((ch === '}' || ch === ']') && commaPos !== -1) {
+            // Trailing comma: remove it
+            result += text.slice(lastCopy, pos);
+            result = result.slice(0, commaPos) + ' ' + result.slice(commaPos + 1);
+            lastCopy = pos;
+            pos++;
+            commaPos = -1;
+        } else {
+            if (!/\s/.test(ch)) {
+                commaPos = -1;
+            }
+            pos++;
+        }
+    }
+
+    return result + text.slice(lastCopy);
+}
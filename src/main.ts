@@ -1,4 +1,5 @@
 import './actions/expand-abbreviation';
+import './actions/abbreviation-history';
 import './actions/balance';
 import './actions/comment';
 import './actions/convert-data-url';
@@ -7,21 +8,73 @@ import './actions/go-to-edit-point';
 import './actions/go-to-tag-pair';
 import './actions/inc-dec-number';
 import './actions/remove-tag';
+import './actions/revert-expansion';
 import './actions/select-item';
 import './actions/split-join-tag';
 import './actions/update-image-size';
 import './actions/wrap-with-abbreviation';
 import initAbbreviationTracker from './abbreviation';
-import { stopTracking } from './abbreviation/AbbreviationTracker';
+import { stopAllTracking } from './abbreviation/AbbreviationTracker';
 import createAutocompleteProvider from './autocomplete';
+import watchSnippets from './lib/snippets';
+import watchVSCodeSettings from './lib/vscode';
+import watchStylesheets from './lib/selectors';
+import getEmmetConfig, { onDidChangeConfig } from './lib/config';
+import { resetCache } from './lib/emmet';
+
+/** Disposable for abbreviation tracking and completions, if enabled */
+let completions: CompositeDisposable | undefined;
 
 export function activate() {
-    // TODO activate only of option is enabled, dispose on option disabled
-    const autocomplete = createAutocompleteProvider()
-    nova.workspace.onDidAddTextEditor(initAbbreviationTracker);
-    nova.assistants.registerCompletionAssistant('*', autocomplete);
+    nova.subscriptions.add(watchSnippets(resetConfig));
+    nova.subscriptions.add(watchVSCodeSettings(resetConfig));
+    nova.subscriptions.add(onDidChangeConfig(resetConfig));
+    updateCompletions();
 }
 
 export function deactivate() {
-    nova.workspace.textEditors.forEach(editor => stopTracking(editor, true));
+    disposeCompletions();
+}
+
+/**
+ * Resets all config-dependent state: must be called whenever Emmet settings
+ * are changed
+ */
+function resetConfig() {
+    resetCache();
+    stopAllTracking(true);
+    updateCompletions();
+}
+
+/**
+ * Registers or disposes abbreviation tracking and completion provider,
+ * depending on current Emmet settings
+ */
+function updateCompletions() {
+    const enabled = getEmmetConfig().mark;
+    if (enabled && !completions) {
+        const disposable = new CompositeDisposable();
+        disposable.add(nova.assistants.registerCompletionAssistant('*', createAutocompleteProvider()));
+        disposable.add(watchStylesheets());
+        disposable.add(nova.workspace.onDidAddTextEditor(editor => {
+            const tracker = initAbbreviationTracker(editor);
+            disposable.add(tracker);
+            editor.onDidDestroy(() => {
+                // Tracker disposes itself when editor is destroyed,
+                // no need to keep it until completions are disposed
+                disposable.remove(tracker);
+            });
+        }));
+        completions = disposable;
+    } else if (!enabled && completions) {
+        disposeCompletions();
+    }
+}
+
+function disposeCompletions() {
+    stopAllTracking(true);
+    if (completions) {
+        completions.dispose();
+        completions = undefined;
+    }
 }
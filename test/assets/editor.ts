@@ -3,7 +3,7 @@ import Range from './range'
 let editorId = 0;
 
 export default function createEditorStub(content = '', pos = 0, syntax = 'html'): TextEditor {
-    let range = new Range(pos, pos);
+    let ranges = [new Range(pos, pos)];
 
     return {
         document: {
@@ -13,11 +13,18 @@ export default function createEditorStub(content = '', pos = 0, syntax = 'html')
                 return content.length;
             }
         },
+        tabText: '\t',
         get selectedRange(): Range {
-            return range;
+            return ranges[0];
         },
         set selectedRange(value: Range) {
-            range = value;
+            ranges = [value];
+        },
+        get selectedRanges(): Range[] {
+            return ranges;
+        },
+        set selectedRanges(value: Range[]) {
+            ranges = value;
         },
         getTextInRange(range: Range): string {
             return content.slice(range.start, range.end);
@@ -21,6 +21,47 @@ const nova = {
             const item = find(extConfig.config);
             return item && item.default;
         }
+    },
+    workspace: {
+        config: {
+            get(): any {
+                return null;
+            }
+        }
+    },
+    extension: {
+        workspaceStoragePath: '/storage'
+    },
+    path: {
+        join(...parts: string[]): string {
+            return parts.join('/').replace(/\/{2,}/g, '/');
+        },
+        dirname(path: string): string {
+            return path.replace(/\/[^/]*$/, '') || '/';
+        },
+        normalize(path: string): string {
+            return path;
+        }
+    },
+    /** In-memory file system */
+    fs: {
+        files: new Map<string, string>(),
+        stat(path: string) {
+            const isFile = this.files.has(path);
+            const isDir = !isFile && Array.from(this.files.keys()).some(file => file.startsWith(path + '/'));
+            return isFile || isDir
+                ? { isFile: () => isFile, isDirectory: () => isDir, isSymbolicLink: () => false }
+                : null;
+        },
+        mkdir() {},
+        open(path: string) {
+            const { files } = this;
+            return {
+                read: () => files.get(path) || '',
+                write: (data: string) => files.set(path, data),
+                close() {}
+            };
+        }
     }
 };
 
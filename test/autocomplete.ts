@@ -1,9 +1,12 @@
-import { strictEqual as equal } from 'assert';
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
 import Range from './assets/range';
 import createSimulator from './assets/simutator';
+import createEditor from './assets/editor';
 import { IssueCollection, Issue, IssueSeverity } from './assets/issue';
 import nova from './assets/nova';
-import { startTracking, getTracker, handleChange, handleSelectionChange } from '../src/abbreviation/AbbreviationTracker';
+import { startTracking, getTracker, getTrackers, handleChange, handleSelectionChange } from '../src/abbreviation/AbbreviationTracker';
+import { getExpansions } from '../src/abbreviation/expansions';
+import { getHistory } from '../src/lib/history';
 
 describe('Autocomplete provider', () => {
     before(() => {
@@ -12,6 +15,7 @@ describe('Autocomplete provider', () => {
         global['Issue'] = Issue;
         global['IssueSeverity'] = IssueSeverity;
         global['nova'] = nova;
+        global['InsertTextFormat'] = { PlainText: 0, Snippet: 1 };
     });
     after(() => {
         delete global['Range'];
@@ -19,6 +23,7 @@ describe('Autocomplete provider', () => {
         delete global['Issue'];
         delete global['IssueSeverity'];
         delete global['nova'];
+        delete global['InsertTextFormat'];
     });
 
     it('abbreviation tracker', () => {
@@ -70,4 +75,146 @@ describe('Autocomplete provider', () => {
         equal(abbr(), undefined);
         equal(content(), 'bbefore main>div[title] aafter');
     });
+
+    it('multi-cursor tracking', () => {
+        const editor = createEditor('l\nl\nl', 1);
+        const carets = (...pos: number[]) => editor.selectedRanges = pos.map(p => new Range(p, p));
+        const abbrs = () => getTrackers(editor).map(tracker => editor.getTextInRange(new Range(tracker.range[0], tracker.range[1])));
+        const content = () => editor.getTextInRange(new Range(0, editor.document.length));
+
+        startTracking(editor, 0, 1);
+        startTracking(editor, 2, 3);
+        startTracking(editor, 4, 5);
+        carets(1, 3, 5);
+
+        // Type at every caret
+        editor.edit(e => [5, 3, 1].forEach(pos => e.insert(pos, 'i')));
+        carets(2, 5, 8);
+        handleChange(editor);
+        deepEqual(abbrs(), ['li', 'li', 'li']);
+
+        editor.edit(e => [8, 5, 2].forEach(pos => e.insert(pos, '.a')));
+        carets(4, 9, 14);
+        handleChange(editor);
+        deepEqual(abbrs(), ['li.a', 'li.a', 'li.a']);
+
+        // Complete first abbreviation: the rest ones are expanded as well
+        getTrackers(editor)[0].snippet = '<li class="a">$1</li>';
+        editor.edit(e => {
+            e.delete(new Range(0, 4));
+            e.insert(0, '<li class="a"></li>');
+        });
+        carets(14, 24, 29);
+        handleChange(editor);
+        deepEqual(getTrackers(editor), []);
+        equal(content(), '<li class="a"></li>\n<li class="a">$1</li>\n<li class="a">$1</li>');
+    });
+
+    it('edit one of multiple trackers with single caret', () => {
+        const editor = createEditor('li.a\nli.a\nli.a', 4);
+        const abbrs = () => getTrackers(editor).map(tracker => editor.getTextInRange(new Range(tracker.range[0], tracker.range[1])));
+        const content = () => editor.getTextInRange(new Range(0, editor.document.length));
+
+        startTracking(editor, 0, 4);
+        startTracking(editor, 5, 9);
+        startTracking(editor, 10, 14);
+        getTrackers(editor).forEach(tracker => tracker.snippet = '<li class="a">$1</li>');
+        handleSelectionChange(editor);
+
+        editor.edit(e => e.delete(new Range(3, 4)));
+        editor.selectedRanges = [new Range(3, 3)];
+        handleChange(editor);
+        deepEqual(abbrs(), ['li.']);
+        equal(content(), 'li.\nli.a\nli.a');
+    });
+
+    it('insert paired character at abbreviation start', () => {
+        const createInput = () => {
+            const { editor, input } = createSimulator('a div b', 2, {
+                onChange: handleChange,
+                onSelectionChange: handleSelectionChange
+            });
+            const abbr = () => {
+                const tracker = getTracker(editor);
+                return tracker
+                    ? editor.getTextInRange(new Range(tracker.range[0], tracker.range[1]))
+                    : undefined;
+            };
+            return { editor, input, abbr };
+        };
+
+        const tracked = createInput();
+        startTracking(tracked.editor, 2, 5);
+        handleSelectionChange(tracked.editor);
+        tracked.input('(');
+        equal(tracked.abbr(), '()div');
+
+        // Empty interactive wrapper
+        const wrapper = createInput();
+        startTracking(wrapper.editor, 2, 2, { wrap: 'div' });
+        handleSelectionChange(wrapper.editor);
+        wrapper.input('(');
+        equal(wrapper.abbr(), '()');
+    });
+
+    it('forward delete', () => {
+        const { editor, content, del, select } = createSimulator('a div) b', 2, {
+            onChange: handleChange,
+            onSelectionChange: handleSelectionChange
+        });
+        const abbr = () => {
+            const tracker = getTracker(editor);
+            return tracker
+                ? editor.getTextInRange(new Range(tracker.range[0], tracker.range[1]))
+                : undefined;
+        };
+
+        startTracking(editor, 2, 5);
+
+        // Delete at abbreviation start
+        select(2);
+        del();
+        equal(abbr(), 'iv');
+
+        // Delete right after abbreviation
+        select(4);
+        del();
+        equal(abbr(), 'iv');
+        equal(content(), 'a iv b');
+
+        // Delete inside abbreviation
+        select(3);
+        del();
+        equal(abbr(), 'i');
+        equal(content(), 'a i b');
+    });
+
+    it('record committed completion', () => {
+        const editor = createEditor('a ul b', 4);
+        startTracking(editor, 2, 4).snippet = '<ul>$1</ul>';
+
+        editor.edit(e => e.replace(new Range(2, 4), '<ul></ul>'));
+        editor.selectedRange = new Range(6, 6);
+        handleChange(editor);
+        equal(getTracker(editor), undefined);
+
+        const [expansion] = getExpansions(editor);
+        equal(expansion.text, 'ul');
+        equal(expansion.start, 2);
+        equal(expansion.lengthBefore, 6);
+
+        // Completed abbreviation is added to history
+        equal(getHistory()[0], 'ul');
+        equal(nova.fs.files.get('/storage/abbreviation-history.json'), JSON.stringify(getHistory()));
+    });
+
+    it('stop tracking on non-local change', () => {
+        const editor = createEditor('a ul b', 4);
+        startTracking(editor, 2, 4);
+
+        // Tracked contents replaced at once, e.g. with redo
+        editor.edit(e => e.replace(new Range(2, 4), 'ol'));
+        handleChange(editor);
+        equal(getTracker(editor), undefined);
+    });
 });
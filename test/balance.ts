@@ -0,0 +1,60 @@
+import { strictEqual as equal } from 'assert';
+import Range from './assets/range';
+import createEditor from './assets/editor';
+import nova from './assets/nova';
+
+type Command = (editor: TextEditor) => void;
+
+describe('Balance action', () => {
+    const commands = new Map<string, Command>();
+
+    before(() => {
+        global['Range'] = Range;
+        global['nova'] = {
+            ...nova,
+            commands: {
+                register(name: string, command: Command) {
+                    commands.set(name, command);
+                }
+            }
+        };
+        require('../src/actions/balance');
+    });
+    after(() => {
+        delete global['Range'];
+        delete global['nova'];
+    });
+
+    function run(command: string, editor: TextEditor): string {
+        commands.get(command)!(editor);
+        const { start, end } = editor.selectedRange;
+        return editor.getTextInRange(new Range(start, end));
+    }
+
+    it('template block inside tag', () => {
+        const code = '<div><p>{% if a %}x{% endif %}</p></div>';
+        const editor = createEditor(code, code.indexOf('x'), 'twig');
+        const outward = () => run('emmet.balance', editor);
+
+        equal(outward(), 'x');
+        equal(outward(), '{% if a %}x{% endif %}');
+        equal(outward(), '<p>{% if a %}x{% endif %}</p>');
+        equal(outward(), '<div><p>{% if a %}x{% endif %}</p></div>');
+
+        editor.selectedRange = new Range(0, code.length);
+        const inward = () => run('emmet.balance-inward', editor);
+        equal(inward(), '<p>{% if a %}x{% endif %}</p>');
+        equal(inward(), '{% if a %}x{% endif %}');
+        equal(inward(), 'x');
+    });
+
+    it('markup syntax without HTML mapping', () => {
+        const code = '---\nconst a = 1;\n---\n<ul><li>x</li></ul>';
+        const editor = createEditor(code, code.indexOf('x'), 'astro');
+        const outward = () => run('emmet.balance', editor);
+
+        equal(outward(), 'x');
+        equal(outward(), '<li>x</li>');
+        equal(outward(), '<ul><li>x</li></ul>');
+    });
+});
@@ -0,0 +1,50 @@
+import { strictEqual as equal } from 'assert';
+import Range from './assets/range';
+import createEditor from './assets/editor';
+import nova from './assets/nova';
+
+type Command = (editor: TextEditor) => void;
+
+describe('Comment action', () => {
+    const commands = new Map<string, Command>();
+
+    before(() => {
+        global['Range'] = Range;
+        global['nova'] = {
+            ...nova,
+            commands: {
+                register(name: string, command: Command) {
+                    commands.set(name, command);
+                }
+            }
+        };
+        require('../src/actions/comment');
+    });
+    after(() => {
+        delete global['Range'];
+        delete global['nova'];
+    });
+
+    function run(editor: TextEditor): string {
+        commands.get('emmet.comment')!(editor);
+        return editor.getTextInRange(new Range(0, editor.document.length));
+    }
+
+    it('html', () => {
+        const code = '<div>\n<p>text</p>\n</div>';
+        const editor = createEditor(code, code.indexOf('text'));
+        equal(run(editor), '<div>\n<!-- <p>text</p> -->\n</div>');
+
+        editor.selectedRange = new Range(12, 12);
+        equal(run(editor), code);
+    });
+
+    it('jsx', () => {
+        const code = 'const a = <div>\n<p>text</p>\n</div>;';
+        const editor = createEditor(code, code.indexOf('text'), 'jsx');
+        equal(run(editor), 'const a = <div>\n{/* <p>text</p> */}\n</div>;');
+
+        editor.selectedRange = new Range(22, 22);
+        equal(run(editor), code);
+    });
+});
@@ -0,0 +1,63 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { parseSyntaxOverrides, getOption, onDidChangeConfig } from '../src/lib/config';
+
+describe('Config', () => {
+    it('parse syntax overrides', () => {
+        deepEqual(parseSyntaxOverrides(''), {});
+        deepEqual(parseSyntaxOverrides('xsl: code-style=xml\nhtml, PHP: comment=true; emmet.bem = yes\n\ninvalid line\nvue: bem=true; comment-template=<!-- [.CLASS] -->'), {
+            xsl: { 'code-style': 'xml' },
+            html: { comment: 'true', bem: 'yes' },
+            php: { comment: 'true', bem: 'yes' },
+            vue: { bem: 'true', 'comment-template': '<!-- [.CLASS] -->' }
+        });
+    });
+
+    it('cache syntax overrides until config change', () => {
+        const values = new Map<string, string>([['emmet.syntax-overrides', 'html: bem=true']]);
+        const listeners = new Map<string, () => void>();
+        let reads = 0;
+
+        global['nova'] = {
+            config: {
+                get(key: string) {
+                    if (key === 'emmet.syntax-overrides') {
+                        reads++;
+                    }
+                    return values.get(key);
+                },
+                onDidChange(key: string, callback: () => void) {
+                    listeners.set(key, callback);
+                    return { dispose() {} };
+                }
+            },
+            workspace: {
+                config: {
+                    get: () => null,
+                    onDidChange: () => ({ dispose() {} })
+                }
+            }
+        };
+        global['CompositeDisposable'] = class {
+            add() {}
+            dispose() {}
+        };
+
+        try {
+            const disposable = onDidChangeConfig(() => {});
+            listeners.get('emmet.syntax-overrides')!();
+
+            equal(getOption('emmet.bem', 'html'), 'true');
+            equal(getOption('emmet.comment', 'html'), undefined);
+            equal(reads, 1);
+
+            values.set('emmet.syntax-overrides', 'html: bem=false');
+            listeners.get('emmet.syntax-overrides')!();
+            equal(getOption('emmet.bem', 'html'), 'false');
+            equal(reads, 2);
+            disposable.dispose();
+        } finally {
+            delete global['nova'];
+            delete global['CompositeDisposable'];
+        }
+    });
+});
@@ -0,0 +1,41 @@
+import { strictEqual as equal } from 'assert';
+import { markupAbbreviation, stylesheetAbbreviation } from 'emmet';
+import { getErrorMessage } from '../src/lib/diagnostics';
+
+function markupError(abbr: string): string {
+    try {
+        markupAbbreviation(abbr);
+    } catch (err) {
+        return getErrorMessage(abbr, err, 'markup');
+    }
+    return '';
+}
+
+function stylesheetError(abbr: string): string {
+    try {
+        stylesheetAbbreviation(abbr);
+    } catch (err) {
+        return getErrorMessage(abbr, err, 'stylesheet');
+    }
+    return '';
+}
+
+describe('Diagnostics', () => {
+    it('explain markup errors', () => {
+        equal(markupError('ul>li)'), 'Unexpected “)”, there’s no matching “(”. Remove it or add “(” before it');
+        equal(markupError('div{a}}'), 'Unexpected “}”, there’s no matching “{”. Remove it or add “{” before it');
+        equal(markupError('div[a}'), 'Unexpected “}”, attribute list opened with “[” at pos 3 is not closed. Replace it with “]”');
+        equal(markupError('a[title="x]'), 'Unclosed " quote. Add closing "');
+        equal(markupError('*2'), 'Multiplier “*” must follow an element. Add element before it, like “li*3”');
+        equal(markupError('li*2*3'), 'Element already has a multiplier. Use group to repeat it again, like “(li*2)*3”');
+        equal(markupError('div p'), 'Unexpected space. Use “>” for child or “+” for sibling element');
+        equal(markupError('div@'), 'Unexpected “@”. Numbering modifier must follow “$”, like “item$@3”');
+    });
+
+    it('explain stylesheet errors', () => {
+        equal(stylesheetError('p10 m'), 'Unexpected space. Use “+” to combine properties, like “p10+m5”');
+        equal(stylesheetError('p10*2'), 'Multiplier “*” is not supported in stylesheet abbreviations');
+        equal(stylesheetError('m10)'), 'Unexpected “)”, there’s no matching “(”. Remove it or add “(” before it');
+        equal(stylesheetError('p10;'), 'Unexpected character “;”');
+    });
+});
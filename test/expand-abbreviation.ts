@@ -0,0 +1,60 @@
+import { strictEqual as equal } from 'assert';
+import Range from './assets/range';
+import createEditor from './assets/editor';
+import nova from './assets/nova';
+
+type Command = (editor: TextEditor) => void;
+
+describe('Expand Abbreviation action', () => {
+    const commands = new Map<string, Command>();
+    const errors: string[] = [];
+
+    before(() => {
+        global['Range'] = Range;
+        global['InsertTextFormat'] = { PlainText: 0, Snippet: 1 };
+        global['nova'] = {
+            ...nova,
+            version: [9, 0, 0],
+            workspace: {
+                ...nova.workspace,
+                showErrorMessage(message: string) {
+                    errors.push(message);
+                }
+            },
+            commands: {
+                register(name: string, command: Command) {
+                    commands.set(name, command);
+                }
+            }
+        };
+        require('../src/actions/expand-abbreviation');
+    });
+    after(() => {
+        delete global['Range'];
+        delete global['InsertTextFormat'];
+        delete global['nova'];
+    });
+
+    function run(editor: TextEditor): string {
+        commands.get('emmet.expand-abbreviation')!(editor);
+        return editor.getTextInRange(new Range(0, editor.document.length));
+    }
+
+    it('multiple carets', () => {
+        errors.length = 0;
+        const editor = createEditor('ul\na*2*3\np');
+        editor.selectedRanges = [new Range(2, 2), new Range(8, 8), new Range(10, 10)];
+
+        // Valid abbreviations are expanded, invalid one is kept as is
+        equal(run(editor), '<ul>$1</ul>\na*2*3\n<p>$1</p>');
+        equal(errors.length, 1);
+        equal(errors[0].startsWith('Unable to expand “a*2*3”'), true);
+    });
+
+    it('single caret', () => {
+        errors.length = 0;
+        const editor = createEditor('a*2*3', 5);
+        equal(run(editor), 'a*2*3');
+        equal(errors.length, 1);
+    });
+});
@@ -0,0 +1,23 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { snippetText, matchSnippet, locateSnippet } from '../src/abbreviation/expansions';
+
+describe('Expansions', () => {
+    it('snippet text', () => {
+        equal(snippetText('<a href="${1}">${2:text}</a>$0'), '<a href="">text</a>');
+        equal(snippetText('<img src="$[]" alt="$[alt]">'), '<img src="" alt="alt">');
+    });
+
+    it('match snippet', () => {
+        const snippet = '<ul>\n\t<li>$1</li>\n</ul>';
+        deepEqual(matchSnippet('a <ul>\n    <li></li>\n</ul> b', snippet, 2), [2, 26]);
+        equal(matchSnippet('a <ul></ul> b', snippet, 2), undefined);
+        equal(matchSnippet('a <ul>\n<li></li>\n</ul>', snippet, 0), undefined);
+    });
+
+    it('locate snippet', () => {
+        const code = '<p></p><br><p></p>';
+        deepEqual(locateSnippet(code, '<p>$1</p>', 2), [0, 7]);
+        deepEqual(locateSnippet(code, '<p>$1</p>', 14, 11), [11, 18]);
+        equal(locateSnippet(code, '<p>$1</p>', 9), undefined);
+    });
+});
@@ -0,0 +1,10 @@
+import { deepStrictEqual as deepEqual } from 'assert';
+import { parseHistory } from '../src/lib/history';
+
+describe('Abbreviation history', () => {
+    it('parse history file', () => {
+        deepEqual(parseHistory('["ul>li*", "", 1, null, "div.wrapper"]'), ['ul>li*', 'div.wrapper']);
+        deepEqual(parseHistory('{"items": ["a"]}'), []);
+        deepEqual(parseHistory('["a",'), []);
+    });
+});
@@ -0,0 +1,39 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { attributeContextForPos, getAttributeNames, getAttributeValues } from '../src/lib/html-attributes';
+
+function context(abbr: string) {
+    const pos = abbr.indexOf('|');
+    return attributeContextForPos(abbr.slice(0, pos) + abbr.slice(pos + 1), pos);
+}
+
+describe('HTML attributes', () => {
+    it('detect context', () => {
+        deepEqual(context('input[|'), { element: 'input', prefix: '' });
+        deepEqual(context('ul>li.item[da|'), { element: 'li', prefix: 'da' });
+        deepEqual(context('a[href target=|'), { element: 'a', attribute: 'target', prefix: '' });
+        deepEqual(context('a[title="a b" rel=no|'), { element: 'a', attribute: 'rel', prefix: 'no' });
+        deepEqual(context('input[type="te|"]'), { element: 'input', attribute: 'type', prefix: 'te' });
+        deepEqual(context('p+.box[|'), { element: undefined, prefix: '' });
+        deepEqual(context('(div>[|'), { element: undefined, prefix: '' });
+        equal(context('input|'), undefined);
+        equal(context('a[title=${|'), undefined);
+        equal(context('a[\u0000|'), undefined);
+        equal(context('a[href]|'), undefined);
+        deepEqual(context('a[title="a b|"]'), { element: 'a', attribute: 'title', prefix: 'a b' });
+    });
+
+    it('dataset', () => {
+        const names = getAttributeNames('input');
+        equal(names.includes('placeholder'), true);
+        equal(names.includes('aria-label'), true);
+        equal(names.includes('data-'), true);
+        equal(getAttributeNames('div').includes('placeholder'), false);
+
+        equal(getAttributeValues('type', 'input').includes('checkbox'), true);
+        deepEqual(getAttributeValues('type', 'button'), ['button', 'submit', 'reset']);
+        equal(getAttributeValues('rel', 'link').includes('stylesheet'), true);
+        equal(getAttributeValues('rel', 'a').includes('noopener'), true);
+        deepEqual(getAttributeValues('loading', 'img'), ['eager', 'lazy']);
+        deepEqual(getAttributeValues('href', 'a'), []);
+    });
+});
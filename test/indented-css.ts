@@ -0,0 +1,41 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getIndentedCSSContext } from '../src/lib/indented-css';
+
+function context(code: string, stylus?: boolean) {
+    const pos = code.indexOf('|');
+    return getIndentedCSSContext(code.slice(0, pos) + code.slice(pos + 1), pos, stylus);
+}
+
+describe('Indented CSS context', () => {
+    it('detect sections', () => {
+        const ctx = context('.a\n  color: red\n  .b\n    p|\n  .c\n    margin: 0');
+        deepEqual(ctx.ancestors.map(item => item.name), ['.a', '.b']);
+        deepEqual(ctx.current, { name: 'p', type: 'propertyName', range: [25, 26] });
+
+        const ctx2 = context('.a\n  color: red\n.b\n  p|');
+        deepEqual(ctx2.ancestors.map(item => item.name), ['.b']);
+
+        const ctx3 = context('// comment\np|');
+        deepEqual(ctx3.ancestors, []);
+        deepEqual(ctx3.current, { name: 'p', type: 'propertyName', range: [11, 12] });
+    });
+
+    it('detect property value', () => {
+        const ctx = context('.a\n  color: re|');
+        deepEqual(ctx.ancestors.map(item => item.name), ['.a', 'color']);
+        deepEqual(ctx.current, { name: 're', type: 'propertyValue', range: [12, 14] });
+
+        const ctx2 = context('.a\n  color re|', true);
+        deepEqual(ctx2.ancestors.map(item => item.name), ['.a', 'color']);
+        equal(ctx2.current!.type, 'propertyValue');
+
+        // Whitespace is not a separator in Sass
+        equal(context('.a\n  color re|').current!.type, 'propertyName');
+    });
+
+    it('detect selector', () => {
+        const ctx = context('.a|\n  color: red');
+        deepEqual(ctx.current, { name: '.a', type: 'selector', range: [0, 2] });
+        equal(context('.a\n  color: red\n|').current, null);
+    });
+});
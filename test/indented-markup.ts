@@ -0,0 +1,89 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getIndentedMarkupContext, balanceIndented, selectItemIndented, getAttributes } from '../src/lib/indented-markup';
+
+function context(code: string, syntax: string) {
+    const pos = code.indexOf('|');
+    return getIndentedMarkupContext(code.slice(0, pos) + code.slice(pos + 1), pos, syntax);
+}
+
+describe('Indented markup', () => {
+    it('pug context', () => {
+        const ctx = context('nav.menu\n  ul#list(role="menu")\n    if items\n      l|', 'pug');
+        deepEqual(ctx.ancestors.map(node => node.name), ['nav', 'ul']);
+        deepEqual(getAttributes(ctx.ancestors[1]), { id: 'list', role: 'menu' });
+        equal(ctx.current!.type, 'element');
+        equal(ctx.raw, null);
+
+        const ctx2 = context('div\n  style(lang="scss").\n    a {\n      p|', 'pug');
+        equal(ctx2.raw!.name, 'style');
+        deepEqual(getAttributes(ctx2.raw!), { lang: 'scss' });
+
+        equal(context('p\n  <b>Hello|</b>', 'pug').current!.type, 'text');
+
+        // Inline text of element
+        const ctx3 = context('p Hello wor|', 'pug');
+        equal(ctx3.current!.type, 'element');
+        deepEqual(ctx3.current!.text, [2, 11]);
+        equal(ctx3.inlineText, true);
+        equal(context('a(href="#") L|', 'pug').inlineText, true);
+        equal(context('ul>l|', 'pug').inlineText, false);
+        equal(context('p.|', 'pug').inlineText, false);
+        equal(context('//\n  ul|', 'pug').raw!.type, 'comment');
+    });
+
+    it('multi-line attributes', () => {
+        const ctx = context('input(\n  type="text"\n  name="q"\n)\np|', 'pug');
+        deepEqual(ctx.ancestors, []);
+
+        const ctx2 = context('a(\n  href="#"\n)\n  span|', 'pug');
+        deepEqual(ctx2.ancestors.map(node => node.name), ['a']);
+    });
+
+    it('slim and haml context', () => {
+        const ctx = context('ul.nav\n  li class="item" data-id=1\n    a|', 'slim');
+        deepEqual(ctx.ancestors.map(node => node.name), ['ul', 'li']);
+        deepEqual(getAttributes(ctx.ancestors[1]), { class: 'item', 'data-id': '1' });
+        equal(context('div\n  css:\n    a { p| }', 'slim').raw!.name, 'css');
+
+        const ctx2 = context('%section.main{id: "x", :role => "main"}\n  .content\n    %p|', 'haml');
+        deepEqual(ctx2.ancestors.map(node => node.name), ['section', 'div']);
+        deepEqual(getAttributes(ctx2.ancestors[0]), { class: 'main', id: 'x', role: 'main' });
+        equal(context('%div\n  :sass\n    a\n      p|', 'haml').raw!.name, 'sass');
+
+        // Abbreviation without Haml prefix
+        const ctx3 = context('%ul\n  li|', 'haml');
+        equal(ctx3.current!.type, 'element');
+        deepEqual(ctx3.ancestors.map(node => node.name), ['ul']);
+        equal(context('%ul\n  ul>li.item|', 'haml').current!.type, 'element');
+        equal(context('%p\n  Hello wor|', 'haml').current!.type, 'text');
+        equal(context('%p Hello wor|', 'haml').inlineText, true);
+    });
+
+    it('balance', () => {
+        const code = 'ul\n  li\n    a Link\n  li Item';
+        const ranges = (pos: number, inward?: boolean) => balanceIndented(code, pos, 'pug', inward)
+            .map(node => [node.range, node.inner]);
+
+        deepEqual(ranges(13), [
+            [[0, 28], [5, 28]],
+            [[5, 18], [12, 18]],
+            [[12, 18], undefined]
+        ]);
+        deepEqual(ranges(1, true), [
+            [[0, 28], [5, 28]],
+            [[5, 18], [12, 18]],
+            [[12, 18], undefined]
+        ]);
+    });
+
+    it('select item', () => {
+        const code = 'p text\na.link.active(href="/home" title="Home")';
+        deepEqual(selectItemIndented(code, 0, 'pug'), { start: 0, end: 6, ranges: [[0, 1]] });
+        deepEqual(selectItemIndented(code, 6, 'pug'), {
+            start: 7,
+            end: 47,
+            ranges: [[7, 8], [9, 13], [14, 20], [21, 33], [27, 32], [34, 46], [41, 45]]
+        });
+        deepEqual(selectItemIndented(code, 7, 'pug', true)!.start, 0);
+    });
+});
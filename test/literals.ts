@@ -0,0 +1,55 @@
+import { strictEqual as equal } from 'assert';
+import { inScriptLiteral, inStylesheetLiteral, inMarkupLiteral } from '../src/lib/literals';
+
+function check(fn: (code: string, pos: number) => boolean, code: string): boolean {
+    const pos = code.indexOf('|');
+    return fn(code.slice(0, pos) + code.slice(pos + 1), pos);
+}
+
+describe('Literals', () => {
+    it('script', () => {
+        equal(check(inScriptLiteral, 'const a = "di|v";'), true);
+        equal(check(inScriptLiteral, 'const a = `${b} di|v`;'), true);
+        equal(check(inScriptLiteral, '// di|v'), true);
+        equal(check(inScriptLiteral, '/* a\n di|v */'), true);
+        equal(check(inScriptLiteral, 'const re = /di|v/g;'), true);
+        equal(check(inScriptLiteral, 'const a = "b"; di|v'), false);
+        equal(check(inScriptLiteral, 'const a = b / c; di|v'), false);
+        equal(check(inScriptLiteral, '<p>Don\'t</p>\n<di|v />'), false);
+        equal(check(inScriptLiteral, '<a href="http://x">di|v</a>'), false);
+        equal(check(inScriptLiteral, 'const a = <div><Foo a={b} /><d|'), false);
+        equal(check(inScriptLiteral, 'const a = <p>Don\'t panic <d|'), false);
+        equal(check(inScriptLiteral, 'const a = (\n<ul>\n<li>It\'s <d|\n</ul>);'), false);
+        equal(check(inScriptLiteral, 'const a = <p>Don\'t</p>; const b = \'d|\';'), true);
+        equal(check(inScriptLiteral, 'const a = <a title="d|" />'), true);
+        equal(check(inScriptLiteral, 'const a = <p>{\'d|\'}</p>'), true);
+        equal(check(inScriptLiteral, 'const a = <p>{b}</p>; // d|'), true);
+        equal(check(inScriptLiteral, 'const a = b < c; d|'), false);
+    });
+
+    it('resume script scan of edited code', () => {
+        equal(check(inScriptLiteral, 'const a = 1;\nconst b = 2;\nd|'), false);
+        equal(check(inScriptLiteral, 'const a = 1;\nconst b = 2;\ndi|'), false);
+        equal(check(inScriptLiteral, '/* const a = 1;\nconst b = 2;\ndi|'), true);
+        equal(check(inScriptLiteral, '// a\n|'), false);
+        equal(check(inScriptLiteral, '// a |'), true);
+    });
+
+    it('stylesheet', () => {
+        equal(check(inStylesheetLiteral, 'a { /* p| */ }'), true);
+        equal(check(inStylesheetLiteral, 'a { content: "p|" }'), true);
+        equal(check(inStylesheetLiteral, 'a { background: url(http://x); p| }'), false);
+        equal(check(inStylesheetLiteral, '// a\na { p| }'), false);
+        equal(check((code, pos) => inStylesheetLiteral(code, pos, true), '// p|'), true);
+    });
+
+    it('markup', () => {
+        equal(check(inMarkupLiteral, '<!-- di|v -->'), true);
+        equal(check(inMarkupLiteral, '<!-- a --><di|v'), false);
+        equal(check(inMarkupLiteral, '<style>/* p| */</style>'), true);
+        equal(check(inMarkupLiteral, '<style lang="scss">// p|\n</style>'), true);
+        equal(check(inMarkupLiteral, '<style>a { p| }</style>'), false);
+        equal(check(inMarkupLiteral, '<script>let a = \'di|v\'</script>'), true);
+        equal(check(inMarkupLiteral, '<script></script><p>di|v</p>'), false);
+    });
+});
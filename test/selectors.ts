@@ -0,0 +1,86 @@
+import { deepStrictEqual as deepEqual } from 'assert';
+import createEditor from './assets/editor';
+import Range from './assets/range';
+import nova from './assets/nova';
+import watchStylesheets, { getSelectors, parseSelectors, parseStyleElements, getStylesheetLinks } from '../src/lib/selectors';
+
+describe('Selectors', () => {
+    it('parse stylesheet', () => {
+        deepEqual(parseSelectors('.a, #b > .c-d.e_f:hover { color: #fff; }'), {
+            classes: ['a', 'c-d', 'e_f'],
+            ids: ['b']
+        });
+        deepEqual(parseSelectors('a[href$=".pdf"] { } @media (min-width: 10.5em) { .g { } } /* .h */'), {
+            classes: ['g'],
+            ids: []
+        });
+        deepEqual(parseSelectors('.block { &__elem { } &.active { } #{$name} { } }'), {
+            classes: ['block', 'active'],
+            ids: []
+        });
+    });
+
+    it('parse markup', () => {
+        const code = '<link rel="stylesheet" href="main.css?v=1"><link rel=icon href="a.png">'
+            + '<style>.a { }</style><p class="b">.c</p><style media="print">#d { }</style>';
+        deepEqual(parseStyleElements(code), { classes: ['a'], ids: ['d'] });
+        deepEqual(getStylesheetLinks(code), ['main.css?v=1']);
+    });
+
+    it('workspace stylesheets', async () => {
+        const files = new Map<string, string>([
+            ['/project/a.css', '.a { }'],
+            ['/project/styles/b.scss', '#b { }'],
+            ['/project/node_modules/c.css', '.c { }']
+        ]);
+        let onChange: (filePath: string) => void = () => {};
+
+        global['Range'] = Range;
+        global['CompositeDisposable'] = class {
+            private items: Disposable[] = [];
+            add(item: Disposable) {
+                this.items.push(item);
+            }
+            dispose() {
+                this.items.forEach(item => item.dispose());
+            }
+        };
+        global['nova'] = {
+            ...nova,
+            workspace: { path: '/project' },
+            fs: {
+                ...nova.fs,
+                files,
+                listdir(dir: string) {
+                    const names = new Set<string>();
+                    for (const file of files.keys()) {
+                        if (file.startsWith(dir + '/')) {
+                            names.add(file.slice(dir.length + 1).split('/')[0]);
+                        }
+                    }
+                    return Array.from(names);
+                },
+                watch(pattern: string | null, callback: (filePath: string) => void) {
+                    onChange = callback;
+                    return { dispose() {} };
+                }
+            }
+        };
+
+        const disposable = watchStylesheets();
+        try {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            const editor = createEditor('<style>.d { }</style>');
+            deepEqual(getSelectors(editor), { classes: ['d', 'a'], ids: ['b'] });
+
+            files.set('/project/a.css', '.e { }');
+            onChange('/project/a.css');
+            deepEqual(getSelectors(editor), { classes: ['d', 'e'], ids: ['b'] });
+        } finally {
+            disposable.dispose();
+            delete global['Range'];
+            delete global['CompositeDisposable'];
+            delete global['nova'];
+        }
+    });
+});
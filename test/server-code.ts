@@ -0,0 +1,26 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getServerRegions, maskServerCode, inServerCode } from '../src/lib/server-code';
+
+describe('Server code regions', () => {
+    it('find regions', () => {
+        deepEqual(getServerRegions('<p><?php if ($a > 1): ?>a</p><?= $b ?>', 'php'), [[3, 24], [29, 38]]);
+        deepEqual(getServerRegions('<ul><% items.each do |i| %><li><%= i %></li><% end %></ul>', 'html+erb'), [[4, 27], [31, 39], [44, 53]]);
+        deepEqual(getServerRegions('{{-- a }} --}}<p>{{ $a }}</p>{!! $b !!}', 'blade'), [[0, 14], [17, 25], [29, 39]]);
+        deepEqual(getServerRegions('@php $a = 1; @endphp<p>@phpinfo</p>', 'blade'), [[0, 20]]);
+        deepEqual(getServerRegions('<p>a</p><?php echo 1;', 'php'), [[8, 21]]);
+        deepEqual(getServerRegions('<p>{{ a }}</p>', 'html'), []);
+    });
+
+    it('mask regions', () => {
+        equal(maskServerCode('<a href="<?= $a > 1 ?>">\n<?php\n?></a>', 'php'), '<a href="             ">\n     \n  </a>');
+        equal(maskServerCode('<p>{{ a }}</p>', 'vue'), '<p>{{ a }}</p>');
+    });
+
+    it('detect location in region', () => {
+        const code = '<p><?php echo $a ?></p>';
+        equal(inServerCode(code, 10, 'php'), true);
+        equal(inServerCode(code, 3, 'php'), false);
+        equal(inServerCode(code, 19, 'php'), false);
+        equal(inServerCode(code, 10, 'html'), false);
+    });
+});
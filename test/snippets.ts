@@ -0,0 +1,53 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import nova from './assets/nova';
+import { parseSnippets } from '../src/lib/snippets';
+
+describe('Workspace snippets', () => {
+    before(() => {
+        global['nova'] = nova;
+    });
+    after(() => {
+        delete global['nova'];
+    });
+
+    it('parse config', () => {
+        const { config, errors } = parseSnippets(JSON.stringify({
+            variables: { lang: 'ru' },
+            html: {
+                snippets: { 'card|crd': '.card>.card__body' },
+                variables: { charset: 'windows-1251' }
+            },
+            css: {
+                snippets: { foo: 'foo: bar' }
+            }
+        }));
+
+        equal(errors.length, 0);
+        deepEqual(config.html!.snippets, { card: '.card>.card__body', crd: '.card>.card__body' });
+        deepEqual(config.html!.variables, { charset: 'windows-1251' });
+        deepEqual(config.markup!.variables, { lang: 'ru' });
+        deepEqual(config.stylesheet!.variables, { lang: 'ru' });
+        deepEqual(config.css!.snippets, { foo: 'foo: bar' });
+    });
+
+    it('report errors', () => {
+        let result = parseSnippets('{ "html": { ');
+        equal(result.errors.length, 1);
+        equal(result.errors[0].message.startsWith('Invalid JSON'), true);
+
+        const text = JSON.stringify({
+            html: {
+                snippets: { valid: 'div>p', invalid: 'div)' },
+                variables: { num: 1 }
+            },
+            css: 'foo'
+        });
+        result = parseSnippets(text);
+        deepEqual(result.config.html!.snippets, { valid: 'div>p' });
+        deepEqual(result.config.html!.variables, {});
+        equal(result.errors.length, 3);
+        equal(result.errors[0].pos, text.indexOf('"invalid"'));
+        equal(result.errors[1].pos, text.indexOf('"num"'));
+        equal(result.errors[2].pos, text.indexOf('"css"'));
+    });
+});
@@ -0,0 +1,42 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { resolveConfig, CSSAbbreviationScope } from 'emmet';
+import { getStyleObject, expandStyleObject } from '../src/lib/style-object';
+
+function styleObject(code: string) {
+    const pos = code.indexOf('|');
+    return getStyleObject(code.slice(0, pos) + code.slice(pos + 1), pos);
+}
+
+function expand(abbr: string, numbers?: boolean, format = false) {
+    const config = resolveConfig({
+        type: 'stylesheet',
+        syntax: 'css',
+        context: { name: CSSAbbreviationScope.Property },
+        options: { 'output.format': format }
+    });
+    return expandStyleObject(abbr, config, numbers);
+}
+
+describe('JSX style object', () => {
+    it('detect style object', () => {
+        deepEqual(styleObject('<div style={{|}}>'), [13, 13]);
+        deepEqual(styleObject('<div style={{ color: "red", | }}>'), [13, 29]);
+        deepEqual(styleObject('<div style={{ p|'), [13, 15]);
+        deepEqual(styleObject(`${' '.repeat(5000)}<div style={{ p|`), [5013, 5015]);
+    });
+
+    it('ignore other locations', () => {
+        equal(styleObject('<div style={{}}>|'), undefined);
+        equal(styleObject('<div style={{ color: |}}>'), undefined);
+        equal(styleObject('<div style={{ color: "a, |" }}>'), undefined);
+        equal(styleObject('<div style={{ margin: fn(1, |) }}>'), undefined);
+        equal(styleObject('<div className={{|}}>'), undefined);
+    });
+
+    it('expand properties', () => {
+        equal(expand('p10+m5'), 'padding: 10, margin: 5');
+        equal(expand('p10+m5', false), 'padding: \'10px\', margin: \'5px\'');
+        equal(expand('p10-20+lh1.5', false), 'padding: \'10px 20px\', lineHeight: 1.5');
+        equal(expand('p10+m5', true, true), 'padding: 10,\nmargin: 5,');
+    });
+});
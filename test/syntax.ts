@@ -0,0 +1,51 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getHTMLContext } from '@emmetio/action-utils';
+import nova from './assets/nova';
+import { parseSyntaxMapping, getEmbeddedStyleSyntax, getEmbeddedMarkupSyntax } from '../src/lib/syntax';
+
+describe('Syntax', () => {
+    before(() => {
+        global['nova'] = nova;
+    });
+    after(() => {
+        delete global['nova'];
+    });
+
+    it('parse syntax mapping', () => {
+        deepEqual(parseSyntaxMapping('heex, EEX: html\nmdx: mdx jsx\n\nfoo\npcss: sugarss unknown'), {
+            heex: { syntax: 'html' },
+            eex: { syntax: 'html' },
+            mdx: { syntax: 'mdx', type: 'jsx' },
+            pcss: { syntax: 'sugarss' }
+        });
+    });
+
+    it('embedded style syntax', () => {
+        const style = (code: string) => {
+            const pos = code.indexOf('|');
+            code = code.slice(0, pos) + code.slice(pos + 1);
+            return getEmbeddedStyleSyntax(code, getHTMLContext(code, pos));
+        };
+
+        equal(style('<style lang="scss">a { p| }</style>'), 'scss');
+        equal(style('<style lang="styl">a\n  p|</style>'), 'stylus');
+        equal(style('<style type="text/x-less">a { p| }</style>'), 'less');
+        equal(style('<style rel="stylesheet/sass">a\n  p|</style>'), 'sass');
+        equal(style('<style type="text/css">a { p| }</style>'), 'css');
+        equal(style('<style scoped>a { p| }</style>'), undefined);
+        equal(style('<style lang="ts">a { p| }</style>'), undefined);
+    });
+
+    it('embedded markup syntax', () => {
+        const markup = (code: string) => {
+            const pos = code.indexOf('|');
+            code = code.slice(0, pos) + code.slice(pos + 1);
+            return getEmbeddedMarkupSyntax(code, getHTMLContext(code, pos));
+        };
+
+        equal(markup('<template lang="pug">\n  div|\n</template>'), 'pug');
+        equal(markup('<template lang="pug">\n  <template v-if="a">|</template>\n</template>'), 'pug');
+        equal(markup('<template lang="html"><div>|</div></template>'), undefined);
+        equal(markup('<template><div>|</div></template>'), undefined);
+    });
+});
@@ -0,0 +1,42 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getTemplateBlocks, matchTemplateBlock, balanceTemplateBlocks } from '../src/lib/template-blocks';
+
+describe('Template blocks', () => {
+    it('match tag blocks', () => {
+        const code = '{% block body %}{% if a %}x{% else %}y{%- endif -%}{% include "a" %}{% endblock %}';
+        deepEqual(getTemplateBlocks(code, 'twig'), [
+            { name: 'block', open: [0, 16], close: [68, 82] },
+            { name: 'if', open: [16, 26], close: [38, 51] }
+        ]);
+        deepEqual(getTemplateBlocks(code, 'html'), []);
+        equal(matchTemplateBlock(code, 27, 'njk')!.name, 'if');
+        equal(matchTemplateBlock(code, 55, 'njk')!.name, 'block');
+        equal(matchTemplateBlock(code, 0, 'njk'), undefined);
+    });
+
+    it('match Blade directives', () => {
+        const code = '@section(\'content\')\n@if ($a)\n<a href="mailto:a@example.com">@@if</a>\n@endif\n@show';
+        deepEqual(getTemplateBlocks(code, 'blade'), [
+            { name: 'section', open: [0, 19], close: [76, 81] },
+            { name: 'if', open: [20, 28], close: [69, 75] }
+        ]);
+    });
+
+    it('match Antlers tags', () => {
+        const code = '{{ if show }}{{ title }}{{ /if }}';
+        deepEqual(getTemplateBlocks(code, 'antlers'), [
+            { name: 'if', open: [0, 13], close: [24, 33] }
+        ]);
+    });
+
+    it('balance', () => {
+        const code = '{% for a in b %}{% if a %}{% set x %}1{% endset %}{% endif %}{% endfor %}';
+        const names = (pos: number, inward?: boolean) => balanceTemplateBlocks(code, pos, 'jinja', inward)
+            .map(block => block.name);
+
+        deepEqual(names(30), ['for', 'if', 'set']);
+        deepEqual(names(20), ['for', 'if']);
+        deepEqual(names(0, true), ['for', 'if', 'set']);
+        deepEqual(names(20, true), ['if', 'set']);
+    });
+});
@@ -0,0 +1,42 @@
+import { strictEqual as equal, deepStrictEqual as deepEqual } from 'assert';
+import { getTemplateLiteral, maskCode } from '../src/lib/template-literal';
+
+function template(code: string) {
+    const pos = code.indexOf('|');
+    return getTemplateLiteral(code.slice(0, pos) + code.slice(pos + 1), pos);
+}
+
+describe('Template literals', () => {
+    it('detect tagged template literals', () => {
+        deepEqual(template('const a = html`<div>|</div>`;'), { syntax: 'html', range: [15, 26] });
+        deepEqual(template('const a = /* HTML */ `<p>|</p>`;'), { syntax: 'html', range: [22, 29] });
+        deepEqual(template('export default { template: `<p>|</p>` }'), { syntax: 'html', range: [28, 35] });
+        deepEqual(template('const Button = styled.button`\n  color: red;|\n`;'), { syntax: 'css', range: [29, 44] });
+        deepEqual(template('const Link = styled(A).attrs({ x: 1 })`p|`;'), { syntax: 'css', range: [39, 40] });
+        deepEqual(template('const s = css`a { p| }`'), { syntax: 'css', range: [14, 21] });
+        deepEqual(template('render(html`<ul>${items.map(i => html`<li>|</li>`)}</ul>`)'), { syntax: 'html', range: [38, 47] });
+        deepEqual(template('html`<p>|'), { syntax: 'html', range: [5, 8] });
+    });
+
+    it('ignore other locations', () => {
+        equal(template('const a = `<div>|</div>`;'), undefined);
+        equal(template('const a = html`<div>${a|}</div>`;'), undefined);
+        equal(template('const a = "html`<div>|</div>`";'), undefined);
+        equal(template('// html`<div>|</div>`'), undefined);
+        equal(template('const a = myhtml`<div>|</div>`;'), undefined);
+        equal(template('const a = html`<div></div>`;|'), undefined);
+    });
+
+    it('resume lookup in edited code', () => {
+        deepEqual(template('const a = 1;\nconst b = html`<p>|'), { syntax: 'html', range: [28, 31] });
+        deepEqual(template('const a = 1;\nconst b = html`<p>d|'), { syntax: 'html', range: [28, 32] });
+        equal(template('const a = `1;\nconst b = html`<p>d|'), undefined);
+        equal(template('// a\nb|'), undefined);
+        deepEqual(template('// a\nhtml`<p>|'), { syntax: 'html', range: [10, 13] });
+    });
+
+    it('mask code', () => {
+        equal(maskCode('a = html`<p></p>`;', { syntax: 'html', range: [9, 16] }), '         <p></p>  ');
+        equal(maskCode('a = css`p: 1`;', { syntax: 'css', range: [8, 12] }), '       {p: 1} ');
+    });
+});
@@ -0,0 +1,51 @@
+import { deepStrictEqual as deepEqual } from 'assert';
+import { parseVSCodeSettings } from '../src/lib/vscode';
+
+describe('VS Code settings', () => {
+    it('parse settings with comments', () => {
+        const { syntaxMap, config } = parseVSCodeSettings(`{
+            // Emmet settings
+            "editor.tabSize": 2,
+            "emmet.includeLanguages": {
+                "erb": "html",
+                "javascript": "javascriptreact", /* JSX in JS files */
+            },
+            "emmet.variables": { "lang": "de" },
+            "emmet.preferences": {
+                "css.intUnit": "rem",
+                "sass.propertyEnd": "",
+                "bem.elementSeparator": "--",
+                "format.noIndentTags": "html, body",
+                "css.unitAliases": "e:em, p:%",
+            },
+            "emmet.syntaxProfiles": {
+                "html": { "attr_quotes": "single", "self_closing_tag": true, "filters": "bem, c" },
+                "vue": "html",
+                "xhtml": "xhtml"
+            }
+        }`);
+
+        deepEqual(syntaxMap, { erb: 'html', javascript: 'jsx' });
+        deepEqual(config.markup!.variables, { lang: 'de' });
+        deepEqual(config.stylesheet!.variables, { lang: 'de' });
+        deepEqual(config.stylesheet!.options, {
+            'stylesheet.intUnit': 'rem',
+            'stylesheet.unitAliases': { e: 'em', p: '%' }
+        });
+        deepEqual(config.sass!.options, { 'stylesheet.after': '' });
+        deepEqual(config.markup!.options, {
+            'bem.element': '--',
+            'output.formatSkip': ['html', 'body']
+        });
+
+        const htmlProfile = {
+            'output.attributeQuotes': 'single',
+            'output.selfClosingStyle': 'xhtml',
+            'bem.enabled': true,
+            'comment.enabled': true
+        };
+        deepEqual(config.html!.options, htmlProfile);
+        deepEqual(config.vue!.options, htmlProfile);
+        deepEqual(config.xhtml!.options, { 'output.selfClosingStyle': 'xhtml' });
+    });
+});
@@ -0,0 +1,63 @@
+import { strictEqual as equal } from 'assert';
+import Range from './assets/range';
+import createEditor from './assets/editor';
+import nova from './assets/nova';
+
+type Command = (editor: TextEditor) => void;
+
+describe('Wrap With Abbreviation action', () => {
+    const commands = new Map<string, Command>();
+    let abbreviation = '';
+
+    before(() => {
+        global['Range'] = Range;
+        global['InsertTextFormat'] = { PlainText: 0, Snippet: 1 };
+        global['nova'] = {
+            ...nova,
+            workspace: {
+                ...nova.workspace,
+                showInputPanel(message: string, options: unknown, callback: (value?: string) => void) {
+                    callback(abbreviation);
+                },
+                showErrorMessage(message: string) {
+                    throw new Error(message);
+                }
+            },
+            commands: {
+                register(name: string, command: Command) {
+                    commands.set(name, command);
+                }
+            }
+        };
+        require('../src/actions/wrap-with-abbreviation');
+    });
+    after(() => {
+        delete global['Range'];
+        delete global['InsertTextFormat'];
+        delete global['nova'];
+    });
+
+    function run(command: string, editor: TextEditor, abbr: string): string {
+        abbreviation = abbr;
+        commands.get(command)!(editor);
+        return editor.getTextInRange(new Range(0, editor.document.length));
+    }
+
+    it('wrap each line', () => {
+        const code = 'Home\n\nAbout\nContacts';
+        const editor = createEditor(code);
+        editor.selectedRange = new Range(0, code.length);
+
+        equal(run('emmet.wrap-lines-with-abbreviation', editor, 'ul>li*'),
+            '<ul>\n\t<li>Home</li>\n\t<li>About</li>\n\t<li>Contacts</li>\n</ul>');
+    });
+
+    it('trim list markers', () => {
+        const code = '- Home\n* About\n1. Contacts';
+        const editor = createEditor(code);
+        editor.selectedRange = new Range(0, code.length);
+
+        equal(run('emmet.wrap-lines-with-abbreviation', editor, 'ul>li*|t'),
+            '<ul>\n\t<li>Home</li>\n\t<li>About</li>\n\t<li>Contacts</li>\n</ul>');
+    });
+});
@@ -2,6 +2,7 @@
 /// <reference lib="es7" />
 /// <reference path="fetch.d.ts" />
 /// <reference path="streams.d.ts" />
+/// <reference path="timers.d.ts" />
 
 type TextEditorCallback = (editor: TextEditor) => void;
 type TextEditCallback = (editor: TextEditorEdit) => void;
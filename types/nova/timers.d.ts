@@ -0,0 +1,5 @@
+// Timer functions available in Nova extension runtime
+declare function setTimeout(callback: () => void, ms?: number): number;
+declare function clearTimeout(handle?: number): void;
+declare function setInterval(callback: () => void, ms?: number): number;
+declare function clearInterval(handle?: number): void;